@@ -1,34 +1,220 @@
-import OpenAI from "openai";
+import { questionKey } from "./deck";
+import * as llm from "./llm";
+import { QUESTION_TYPES, correctAnswerText, isQuestionType, validateTypedQuestion, type MultiAnswer, type QuestionType, type TypedQuestion } from "./questionTypes";
 
-const apiKey = process.env.GROQ_API_KEY;
+const llmProblem = llm.configurationProblem();
+if (llmProblem) {
+    console.error(`Warning: ${llmProblem} Question generation will not work.`);
+}
+
+export type GeneratedQuestion = TypedQuestion & {
+    explanation: string | null;     // why the answer is right, null if the model didn't write one
+};
+
+// Which question types the model may write, e.g. "single,multi" for a topic without numbers
+const GENERATION_TYPES: QuestionType[] = (() => {
+    const types = (process.env.GENERATION_QUESTION_TYPES || QUESTION_TYPES.join(","))
+        .split(",")
+        .map(type => type.trim())
+        .filter(isQuestionType);
+    return types.length > 0 ? types : ["single"];
+})();
+
+const typeInstructions: Record<QuestionType, string> = {
+    single: `- "single": one correct option.
+  {"type": "single", "question": "...", "options": ["A", "B", "C"], "correct_index": 0}`,
+    true_false: `- "true_false": a statement that is either true or false. correct_index is 0 if it is true, 1 if it is false.
+  {"type": "true_false", "question": "The statement", "correct_index": 1}`,
+    multi: `- "multi": several correct options, the student must pick all of them.
+  {"type": "multi", "question": "Which of the following ...? (all that apply)", "options": ["A", "B", "C", "D"], "correct_indices": [0, 2]}`,
+    cloze: `- "cloze": a sentence with one or more blanks written as ____ (four underscores), the student types the missing words.
+  "blanks" has one list of accepted answers per blank, in order. Blank out key terms, not filler words.
+  {"type": "cloze", "question": "A graph without cycles is called a ____.", "blanks": [["forest", "acyclic graph"]]}`,
+    numeric: `- "numeric": the answer is a single number the student computes and types. State the expected unit or precision in the question.
+  {"type": "numeric", "question": "... Round to two decimal places.", "value": 3.14, "tolerance": 0.005, "unit": "m/s"}`
+};
+
+// A question the model produced that didn't make it into the result
+export interface RejectedQuestion {
+    question: string | null;
+    reason: string;
+    stage: "schema" | "quality";
+}
+
+export interface GenerationResult {
+    questions: GeneratedQuestion[];
+    rejected: RejectedQuestion[];
+}
+
+const questionsSchema: llm.JsonSchema = {
+    name: "questions",
+    schema: {
+        type: "object",
+        properties: {
+            questions: {
+                type: "array",
+                items: {
+                    type: "object",
+                    properties: {
+                        type: { type: "string", enum: GENERATION_TYPES },
+                        question: { type: "string" },
+                        options: { type: "array", items: { type: "string" } },
+                        correct_index: { type: "integer" },
+                        correct_indices: { type: "array", items: { type: "integer" } },
+                        blanks: { type: "array", items: { type: "array", items: { type: "string" } } },
+                        value: { type: "number" },
+                        tolerance: { type: "number" },
+                        unit: { type: "string" },
+                        explanation: { type: "string" }
+                    },
+                    required: ["type", "question", "explanation"],
+                    additionalProperties: false
+                }
+            }
+        },
+        required: ["questions"],
+        additionalProperties: false
+    },
+    // Strict mode needs every field to be required, but each type only uses some of them
+    strict: false
+};
+
+const keepSchema: llm.JsonSchema = {
+    name: "review",
+    schema: {
+        type: "object",
+        properties: { keep: { type: "array", items: { type: "integer" } } },
+        required: ["keep"],
+        additionalProperties: false
+    }
+};
+
+// Only the overall shape is checked here, so that one broken item doesn't throw away the whole batch.
+// Items are validated one by one in parseQuestions. A bare array is accepted from models that ignore the wrapper.
+function questionsArray(value: unknown): unknown[] | string {
+    const items = Array.isArray(value) ? value : (value as { questions?: unknown })?.questions;
+    return Array.isArray(items) ? items : "expected an object with a \"questions\" array";
+}
+
+function parseQuestions(items: unknown[]): GenerationResult {
+    const result: GenerationResult = { questions: [], rejected: [] };
+    for (const item of items) {
+        const raw = item as { type?: unknown, question?: unknown, correct_index?: unknown, explanation?: unknown } | null;
+        // Small models like to send the index as a string
+        const correctIndex = typeof raw?.correct_index === "string" && /^\d+$/.test(raw.correct_index.trim())
+            ? parseInt(raw.correct_index)
+            : raw?.correct_index;
+        const type = raw?.type ?? "single";
+        const checked = isQuestionType(type) && !GENERATION_TYPES.includes(type)
+            ? `тип '${type}' отключен в GENERATION_QUESTION_TYPES`
+            : validateTypedQuestion({ ...raw, correct_index: correctIndex });
+
+        if (typeof checked === "string") {
+            result.rejected.push({ question: typeof raw?.question === "string" ? raw.question : null, reason: checked, stage: "schema" });
+        } else {
+            // A missing explanation is not worth losing the question, it can be written later
+            const explanation = typeof raw?.explanation === "string" && raw.explanation.trim() ? raw.explanation.trim() : null;
+            result.questions.push({ ...checked, explanation });
+        }
+    }
+    return result;
+}
+
+// Long sources are split into chunks of about this size (see extract.splitText)
+export const CHUNK_CHARS = parseInt(process.env.GENERATION_CHUNK_CHARS || "8000");
+// How many chunks are sent to the API at the same time
+const CHUNK_CONCURRENCY = parseInt(process.env.GENERATION_CONCURRENCY || "2");
+
+export interface GenerationProgress {
+    done: number;
+    total: number;
+    questions: number;
+}
 
-if (!apiKey) {
-    console.error("Warning: GROQ_API_KEY is not set.");
+// Generates questions chunk by chunk, each chunk gets its own generation and quality check.
+// Returns the result per chunk in the input order. Questions that repeat one from another
+// chunk are dropped, whichever chunk finished first keeps it.
+export async function generateQuestionsForChunks(
+    chunks: string[],
+    studyKey: string,
+    onProgress?: (progress: GenerationProgress) => void
+): Promise<GenerationResult[]> {
+    const results: GenerationResult[] = chunks.map(() => ({ questions: [], rejected: [] }));
+    const seen = new Set<string>();
+    let next = 0;
+    let done = 0;
+    let total = 0;
+
+    const worker = async () => {
+        while (next < chunks.length) {
+            const idx = next++;
+            const result = await generateQuestions(chunks[idx]!, studyKey);
+
+            result.questions = result.questions.filter(q => {
+                const key = questionKey(q.question);
+                if (seen.has(key)) return false;
+                seen.add(key);
+                return true;
+            });
+            results[idx] = result;
+            done++;
+            total += result.questions.length;
+            onProgress?.({ done, total: chunks.length, questions: total });
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(CHUNK_CONCURRENCY, chunks.length) }, worker));
+    return results;
 }
 
-const openai = new OpenAI({
-    apiKey: apiKey || "dummy", // Prevent crash if not set, but calls will fail
-    baseURL: "https://api.groq.com/openai/v1",
-});
+const NOTHING_READABLE = "NO_TEXT";
+
+// OCR for photos of notes: returns the text of the image with formulas in LaTeX,
+// or null when the model found nothing readable
+export async function transcribeImage(image: Uint8Array, mimeType: string): Promise<string | null> {
+    const problem = llm.configurationProblem();
+    if (problem) {
+        throw new Error(`LLM is not configured: ${problem}`);
+    }
+
+    const prompt = `
+Transcribe the study notes in this image (handwritten or printed, e.g. a whiteboard or a textbook page).
+- Keep the original language and wording, do not translate, summarize or explain.
+- Write mathematical formulas in LaTeX: $...$ inline and $$...$$ for display formulas.
+- Keep headings, lists and paragraph breaks as plain text lines.
+- Describe diagrams only if they carry information needed to understand the text, in one short line in square brackets.
+- If the image contains no readable notes, return exactly: ${NOTHING_READABLE}
+Return ONLY the transcription.
+`;
+
+    const content = await llm.complete("transcribe", [
+        {
+            role: "user",
+            content: [
+                { type: "text", text: prompt },
+                { type: "image_url", image_url: { url: `data:${mimeType};base64,${Buffer.from(image).toString("base64")}` } }
+            ]
+        }
+    ], { temperature: 0.1 });
 
-interface GeneratedQuestion {
-    question: string;
-    options: string[];
-    correct_index: number;
+    if (!content || content.includes(NOTHING_READABLE)) return null;
+    // Some models wrap the answer in a code block
+    return content.replace(/^```[a-z]*\n?/, "").replace(/\n?```$/, "").trim() || null;
 }
 
-export async function generateQuestions(text: string, studyKey: string, recursiveAttempt?: number): Promise<GeneratedQuestion[]> {
-    if (!process.env.GROQ_API_KEY) {
-        throw new Error("GROQ_API_KEY is not configured.");
+export async function generateQuestions(text: string, studyKey: string, recursiveAttempt?: number): Promise<GenerationResult> {
+    const problem = llm.configurationProblem();
+    if (problem) {
+        throw new Error(`LLM is not configured: ${problem}`);
     }
-    if (recursiveAttempt <= 0) { return [] }
+    if (recursiveAttempt <= 0) { return { questions: [], rejected: [] } }
 
     const prompt = `
 You are an expert tutor generating active recall questions.
 The user is studying: '${studyKey}'.
 Hint: ДМ stand for discrete mathematics, АиСД stands for algorithms and data structures, Линал stands for linear algebra.
 
-Your goal is to generate as many multiple-choice questions as necessary to cover the key concepts in the text below.
+Your goal is to generate as many questions as necessary to cover the key concepts in the text below.
 - Do not limit yourself to 3 questions; generate more if the text contains enough information.
 - Ensure the questions are NOT REDUNDANT (do not ask the same thing in different ways).
 - Use your best judgment to determine the appropriate number of questions.
@@ -51,55 +237,63 @@ CRITICAL: Since these questions will be reviewed randomly later, they must be SE
 - CORRECT: The questions must be correct. Do an extra reasoning pass to solve the question and compare your correct_index with the one you chose previously. If they don't match, do a third try and take the median of the three.
 - EXCESS: You are free to generate a few more questions than needed, extra ones will be cut out later during quality control.
 
+QUESTION TYPES:
+Pick the type that fits each concept best and mix them. Allowed types:
+${GENERATION_TYPES.map(type => typeInstructions[type]).join("\n")}
+
+EXPLANATION:
+Every question object also has an "explanation" field, shown to the student after answering:
+- 2-4 sentences in the same language as the question: why the correct answer is right and, for questions with options, why each wrong option is wrong.
+- Refer to options by their content, NEVER by letter or position: the options are shuffled before they are shown.
+- Use the same LaTeX notation as in the question.
+
 User Text:
 """
 ${text}
 """
 
-Return ONLY a raw JSON array (no markdown code blocks) of objects with this structure:
-[
-  {
-    "question": "The question text",
-    "options": ["Option A", "Option B", "Option C"],
-    "correct_index": 0 // The index of the correct option in the array
-  }
-]
+Return ONLY a raw JSON object (no markdown code blocks) with this structure:
+{
+  "questions": [
+    // objects in the format of their type, see QUESTION TYPES
+  ]
+}
+Questions with options need 2 to 8 distinct, non-empty options, and every index must point inside the options array.
 `;
 
     try {
-        const completion = await openai.chat.completions.create({
-            model: "moonshotai/kimi-k2-instruct-0905",
-            messages: [
-                { role: "system", content: "You are a helpful AI tutor that generates JSON output." },
-                { role: "user", content: prompt }
-            ],
-            temperature: 0.7,
-        });
-
-        const content = completion.choices[0]?.message?.content?.trim();
-        if (!content) return [];
-
-        // Clean up markdown code blocks if present (despite instruction)
-        const cleanContent = content.replace(/```json/g, "").replace(/```/g, "").trim();
-        
-        const initialQuestions = JSON.parse(cleanContent) as GeneratedQuestion[];
-        if (initialQuestions.length === 0) return generateQuestions(text, studyKey, (recursiveAttempt ?? 3) - 1);
+        const items = await llm.completeJson("generate", [
+            { role: "system", content: "You are a helpful AI tutor that generates JSON output." },
+            { role: "user", content: prompt }
+        ], questionsArray, { temperature: 0.7, schema: questionsSchema });
+        if (!items) return { questions: [], rejected: [] };
+
+        // Step 1: Schema check, broken items are reported instead of saved
+        const parsed = parseQuestions(items);
+        if (parsed.rejected.length > 0) {
+            console.error(`Rejected ${parsed.rejected.length} malformed questions:`, parsed.rejected.map(r => r.reason));
+        }
+        if (parsed.questions.length === 0 && parsed.rejected.length === 0) {
+            return generateQuestions(text, studyKey, (recursiveAttempt ?? 3) - 1);
+        }
 
         // Step 2: Context Check
-        const validatedQuestions = await filterBadQuestions(initialQuestions, text);
+        const reviewed = await filterBadQuestions(parsed.questions, text);
+        const rejected = [...parsed.rejected, ...reviewed.rejected];
 
-        // Step 3: Randomize options (LLM bias fix)
-        return validatedQuestions.map(shuffleOptions);
+        // Step 3: Randomize options (LLM bias fix), the mock provider stays deterministic
+        if (llm.llmConfig.provider === "mock") return { questions: reviewed.kept, rejected };
+        return { questions: reviewed.kept.map(shuffleOptions), rejected };
 
     } catch (error) {
         console.error("Error generating questions:", error);
-        return [];
+        return { questions: [], rejected: [] };
     }
 }
 
-async function filterBadQuestions(questions: GeneratedQuestion[], originalText: string): Promise<GeneratedQuestion[]> {
+async function filterBadQuestions(questions: GeneratedQuestion[], originalText: string): Promise<{ kept: GeneratedQuestion[], rejected: RejectedQuestion[] }> {
     // Only verify if we have questions
-    if (questions.length === 0) return [];
+    if (questions.length === 0) return { kept: [], rejected: [] };
 
     const prompt = `
 You are a strict quality control bot.
@@ -120,38 +314,154 @@ ${originalText}
 Questions to Review:
 ${JSON.stringify(questions, null, 2)}
 
-Return a JSON array of integers representing the INDICES of the questions that are GOOD, SELF-CONTAINED, and CORRECT.
+Return a JSON object whose "keep" array contains the INDICES (0-based integers) of the questions that are GOOD, SELF-CONTAINED, and CORRECT.
 Discard any questions that lack context or are factually wrong based on the text.
-Example Output: [0, 2, 5]
+Example Output: {"keep": [0, 2, 5]}
 `;
 
-    try {
-        const completion = await openai.chat.completions.create({
-            model: "moonshotai/kimi-k2-instruct-0905",
-            messages: [
-                { role: "system", content: "You are a quality control bot that outputs JSON arrays of indices." },
-                { role: "user", content: prompt }
-            ],
-            temperature: 0.1, // Low temp for strict logic
-        });
-
-        const content = completion.choices[0]?.message?.content?.trim();
-        if (!content) return questions; // Fallback: keep all if check fails
-
-        const cleanContent = content.replace(/```json/g, "").replace(/```/g, "").trim();
-        const goodIndices = JSON.parse(cleanContent) as number[];
+    // Indices must point into the reviewed list, anything else means the model misunderstood the task
+    const parseIndices = (value: unknown): number[] | string => {
+        const keep = Array.isArray(value) ? value : (value as { keep?: unknown })?.keep;
+        if (!Array.isArray(keep)) return "expected an object with a \"keep\" array";
+        const invalid = keep.filter(i => !Number.isInteger(i) || i < 0 || i >= questions.length);
+        if (invalid.length > 0) return `indices out of range 0..${questions.length - 1}: ${JSON.stringify(invalid)}`;
+        return keep as number[];
+    };
 
-        if (!Array.isArray(goodIndices)) return questions;
+    try {
+        const goodIndices = await llm.completeJson("validate", [
+            { role: "system", content: "You are a quality control bot that outputs JSON objects with arrays of indices." },
+            { role: "user", content: prompt }
+        ], parseIndices, { temperature: 0.1, schema: keepSchema }); // Low temp for strict logic
+        if (!goodIndices) return { kept: questions, rejected: [] }; // Fallback: keep all if check fails
 
         // Filter original array
-        return questions.filter((_, i) => goodIndices.includes(i));
+        const rejected = questions
+            .filter((_, i) => !goodIndices.includes(i))
+            .map(q => ({ question: q.question, reason: "не прошел проверку качества", stage: "quality" as const }));
+        return { kept: questions.filter((_, i) => goodIndices.includes(i)), rejected };
     } catch (e) {
         console.error("Error in context check:", e);
-        return questions; // Fallback
+        return { kept: questions, rejected: [] }; // Fallback
+    }
+}
+
+export type GradeVerdict = "correct" | "partial" | "wrong";
+
+export interface Grade {
+    verdict: GradeVerdict;
+    explanation: string;
+}
+
+const gradeSchema: llm.JsonSchema = {
+    name: "grade",
+    schema: {
+        type: "object",
+        properties: {
+            verdict: { type: "string", enum: ["correct", "partial", "wrong"] },
+            explanation: { type: "string" }
+        },
+        required: ["verdict", "explanation"],
+        additionalProperties: false
+    }
+};
+
+// Grades a free-form answer against the expected one. The source text, when there is one,
+// lets the model accept answers that are right but worded differently from the stored option.
+// Returns null when the model gave no usable grade.
+export async function gradeOpenAnswer(question: string, expectedAnswer: string, studentAnswer: string, sourceText?: string | null): Promise<Grade | null> {
+    const problem = llm.configurationProblem();
+    if (problem) {
+        throw new Error(`LLM is not configured: ${problem}`);
+    }
+
+    const prompt = `
+You are grading a student's answer to an active recall question.
+Compare the MEANING of the student answer with the expected answer, not the wording.
+- "correct": the student answer states the key idea of the expected answer; synonyms, notation differences and extra correct details are fine.
+- "partial": the answer is on the right track but misses an essential part or is too vague.
+- "wrong": the answer is incorrect, unrelated, or empty of content.
+Write a short explanation (1-2 sentences) addressed to the student, in the SAME LANGUAGE as the question.
+Use LaTeX in $...$ for formulas. Do not reveal more than needed to understand the mistake.
+
+Question:
+"""
+${question}
+"""
+
+Expected answer:
+"""
+${expectedAnswer}
+"""
+${sourceText ? `
+Source material the question was generated from:
+"""
+${sourceText}
+"""
+` : ""}
+Student answer:
+"""
+${studentAnswer}
+"""
+
+Return ONLY a JSON object: {"verdict": "correct" | "partial" | "wrong", "explanation": "..."}
+`;
+
+    const parseGrade = (value: unknown): Grade | string => {
+        const grade = value as { verdict?: unknown, explanation?: unknown } | null;
+        if (grade?.verdict !== "correct" && grade?.verdict !== "partial" && grade?.verdict !== "wrong") {
+            return "verdict must be \"correct\", \"partial\" or \"wrong\"";
+        }
+        return { verdict: grade.verdict, explanation: typeof grade.explanation === "string" ? grade.explanation.trim() : "" };
+    };
+
+    return llm.completeJson("grade", [
+        { role: "system", content: "You are a fair but strict examiner that outputs JSON." },
+        { role: "user", content: prompt }
+    ], parseGrade, { temperature: 0.1, schema: gradeSchema });
+}
+
+// Writes the explanation for a question that was saved without one (imported, or generated before
+// explanations existed). Returns null when the model returned nothing.
+export async function explainQuestion(question: TypedQuestion): Promise<string | null> {
+    const problem = llm.configurationProblem();
+    if (problem) {
+        throw new Error(`LLM is not configured: ${problem}`);
     }
+
+    const optionsText = question.options.length > 0 && question.type !== "true_false"
+        ? `\nOptions:\n${question.options.map(option => `- ${option}`).join("\n")}\n`
+        : "";
+
+    const prompt = `
+Explain the answer to this active recall question to a student who has just answered it.
+- 2-4 sentences in the SAME LANGUAGE as the question: why the correct answer is right and, if there are options, why each wrong option is wrong.
+- Refer to options by their content, NEVER by letter or position.
+- Use LaTeX in $...$ for formulas.
+- Do not repeat the question. Return ONLY the explanation text.
+
+Question (${question.type}):
+"""
+${question.question}
+"""
+${optionsText}
+Correct answer:
+"""
+${correctAnswerText(question)}
+"""
+`;
+
+    const content = await llm.complete("explain", [
+        { role: "system", content: "You are a patient tutor who explains answers briefly and precisely." },
+        { role: "user", content: prompt }
+    ], { temperature: 0.3 });
+    return content;
 }
 
 function shuffleOptions(q: GeneratedQuestion): GeneratedQuestion {
+    // "Верно" / "Неверно" keep their order, typed answers have no options
+    if (q.type !== "single" && q.type !== "multi") return q;
+
     const indices = q.options.map((_, i) => i);
     // Fisher-Yates shuffle
     for (let i = indices.length - 1; i > 0; i--) {
@@ -161,6 +471,11 @@ function shuffleOptions(q: GeneratedQuestion): GeneratedQuestion {
     
     const newOptions = indices.map(i => q.options[i]);
     const newCorrectIndex = indices.indexOf(q.correct_index);
+
+    if (q.type === "multi") {
+        const correct = (q.answer as MultiAnswer).correct.map(i => indices.indexOf(i)).sort((a, b) => a - b);
+        return { ...q, options: newOptions as string[], correct_index: correct[0]!, answer: { correct } };
+    }
     
     return {
         ...q,
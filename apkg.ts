@@ -0,0 +1,301 @@
+import { Database } from "bun:sqlite";
+import { createHash } from "node:crypto";
+import * as imageStorage from "./imageStorage";
+import { CLOZE_BLANK, formatCorrectAnswer, type MultiAnswer, type QuestionAnswer, type QuestionType } from "./questionTypes";
+
+// Anki package export. An .apkg is a zip with the SQLite collection (schema 11, which every
+// Anki version still imports), a "media" JSON map and the media files named 0, 1, 2...
+
+export interface ApkgQuestion {
+    id: number;
+    question_text: string;
+    options: string[];
+    correct_index: number;
+    type: QuestionType;
+    answer: QuestionAnswer;
+    explanation: string | null;
+}
+
+// Fixed so that exports from different topics share one note type in Anki
+const MODEL_ID = 1718209462153;
+const FIELD_SEPARATOR = "\x1f";
+
+const cardCss = `.card { font-family: Arial, sans-serif; font-size: 20px; text-align: left; color: black; background-color: white; }
+.options { margin-top: 12px; }
+.answer { font-weight: bold; }
+img { max-width: 100%; }`;
+
+const frontTemplate = "{{#Image}}{{Image}}{{/Image}}{{^Image}}<div>{{Question}}</div><div class=\"options\">{{Options}}</div>{{/Image}}";
+const backTemplate = "{{FrontSide}}<hr id=\"answer\"><div class=\"answer\">{{Answer}}</div>";
+
+export async function buildApkg(studyKey: string, questions: ApkgQuestion[], { includeImages = false } = {}): Promise<Uint8Array> {
+    const now = Date.now();
+    const deckId = stableId(`deck:${studyKey}`);
+    const media: Record<string, string> = {};
+    const mediaFiles: { name: string, data: Uint8Array }[] = [];
+
+    const collection = new Database(":memory:");
+    collection.run(COLLECTION_SCHEMA);
+    collection.query(`
+        INSERT INTO col VALUES (1, $crt, $mod, $mod, 11, 0, 0, 0, $conf, $models, $decks, $dconf, '{}')
+    `).run({
+        $crt: Math.floor(now / 1000),
+        $mod: now,
+        $conf: JSON.stringify(collectionConf(deckId, questions.length + 1)),
+        $models: JSON.stringify({ [MODEL_ID]: noteModel(deckId, now) }),
+        $decks: JSON.stringify({ "1": deck(1, "Default", now), [deckId]: deck(deckId, studyKey, now) }),
+        $dconf: JSON.stringify({ "1": deckConf() })
+    });
+
+    const insertNote = collection.query(`
+        INSERT INTO notes VALUES ($id, $guid, ${MODEL_ID}, $mod, -1, '', $flds, $sfld, $csum, 0, '')
+    `);
+    const insertCard = collection.query(`
+        INSERT INTO cards VALUES ($id, $nid, $did, 0, $mod, -1, 0, 0, $due, 0, 0, 0, 0, 0, 0, 0, 0, '')
+    `);
+
+    for (const [idx, q] of questions.entries()) {
+        let image = "";
+        if (includeImages && imageStorage.imageExists(q.id)) {
+            const name = `arb-question-${q.id}.png`;
+            media[String(mediaFiles.length)] = name;
+            mediaFiles.push({ name: String(mediaFiles.length), data: await Bun.file(imageStorage.getQuestionImagePath(q.id)).bytes() });
+            image = `<img src="${name}">`;
+        }
+
+        const question = toAnkiHtml(q.type === "cloze" ? q.question_text.replace(CLOZE_BLANK, "[...]") : q.question_text);
+        const options = q.type === "single" || q.type === "multi"
+            ? q.options.map((option, i) => `${String.fromCharCode(65 + i)}) ${toAnkiHtml(option)}`).join("<br>")
+            : q.type === "true_false" ? "Верно или неверно?" : "";
+        const answer = ankiAnswer(q) + (q.explanation ? `<br><br>${toAnkiHtml(q.explanation)}` : "");
+
+        // Note and card ids are creation timestamps in Anki, they only have to be unique
+        const noteId = now + idx;
+        const sortField = stripHtml(question);
+        insertNote.run({
+            $id: noteId,
+            // Stable per question, so re-importing an updated export updates the notes instead of duplicating them
+            $guid: createHash("sha1").update(`active-recall-bot:${q.id}`).digest("base64").slice(0, 10),
+            $mod: Math.floor(now / 1000),
+            $flds: [question, options, answer, image].join(FIELD_SEPARATOR),
+            $sfld: sortField,
+            $csum: parseInt(createHash("sha1").update(sortField).digest("hex").slice(0, 8), 16)
+        });
+        insertCard.run({ $id: noteId, $nid: noteId, $did: deckId, $mod: Math.floor(now / 1000), $due: idx + 1 });
+    }
+
+    const collectionData = collection.serialize();
+    collection.close();
+
+    return zip([
+        { name: "collection.anki2", data: collectionData },
+        { name: "media", data: new TextEncoder().encode(JSON.stringify(media)) },
+        ...mediaFiles
+    ]);
+}
+
+function ankiAnswer(q: ApkgQuestion): string {
+    const choice = (idx: number) => `${String.fromCharCode(65 + idx)}) ${toAnkiHtml(q.options[idx] ?? "")}`;
+    if (q.type === "single") return choice(q.correct_index);
+    if (q.type === "multi") return (q.answer as MultiAnswer).correct.map(choice).join("<br>");
+    return toAnkiHtml(formatCorrectAnswer(q));
+}
+
+// Our questions use $...$ and $$...$$ like the renderer, Anki's MathJax wants \(...\) and \[...\]
+export function toAnkiHtml(text: string): string {
+    return escapeHtml(text)
+        .replace(/\$\$([\s\S]+?)\$\$/g, (_, math) => `\\[${math}\\]`)
+        .replace(/\$([^$]+?)\$/g, (_, math) => `\\(${math}\\)`)
+        .replace(/\n/g, "<br>");
+}
+
+function escapeHtml(unsafe: string): string {
+    return unsafe
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+function stripHtml(html: string): string {
+    return html.replace(/<[^>]+>/g, " ").replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, "\"").replace(/&amp;/g, "&").trim();
+}
+
+function stableId(value: string): number {
+    // 48 bits keeps it a safe integer
+    return parseInt(createHash("sha1").update(value).digest("hex").slice(0, 12), 16);
+}
+
+function noteModel(deckId: number, now: number) {
+    const field = (name: string, ord: number) => ({ name, ord, sticky: false, rtl: false, font: "Arial", size: 20, media: [] });
+    return {
+        id: MODEL_ID,
+        name: "Active Recall Bot",
+        type: 0,
+        mod: Math.floor(now / 1000),
+        usn: -1,
+        sortf: 0,
+        did: deckId,
+        tmpls: [{ name: "Card 1", ord: 0, qfmt: frontTemplate, afmt: backTemplate, did: null, bqfmt: "", bafmt: "" }],
+        flds: [field("Question", 0), field("Options", 1), field("Answer", 2), field("Image", 3)],
+        css: cardCss,
+        latexPre: "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+        latexPost: "\\end{document}",
+        tags: [],
+        vers: [],
+        // The card is generated when the question field is not empty
+        req: [[0, "any", [0]]]
+    };
+}
+
+function deck(id: number, name: string, now: number) {
+    return {
+        id,
+        name,
+        desc: "",
+        mod: Math.floor(now / 1000),
+        usn: -1,
+        collapsed: false,
+        browserCollapsed: false,
+        newToday: [0, 0],
+        revToday: [0, 0],
+        lrnToday: [0, 0],
+        timeToday: [0, 0],
+        dyn: 0,
+        conf: 1,
+        extendNew: 10,
+        extendRev: 50
+    };
+}
+
+function collectionConf(deckId: number, nextPos: number) {
+    return {
+        activeDecks: [deckId],
+        curDeck: deckId,
+        curModel: String(MODEL_ID),
+        newSpread: 0,
+        collapseTime: 1200,
+        timeLim: 0,
+        estTimes: true,
+        dueCounts: true,
+        nextPos,
+        sortType: "noteFld",
+        sortBackwards: false,
+        addToCur: true
+    };
+}
+
+function deckConf() {
+    return {
+        id: 1,
+        name: "Default",
+        mod: 0,
+        usn: 0,
+        maxTaken: 60,
+        autoplay: true,
+        timer: 0,
+        replayq: true,
+        dyn: false,
+        new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+        lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+        rev: { perDay: 100, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: true }
+    };
+}
+
+const COLLECTION_SCHEMA = `
+    CREATE TABLE col (
+        id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+        ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+        conf text not null, models text not null, decks text not null, dconf text not null, tags text not null
+    );
+    CREATE TABLE notes (
+        id integer primary key, guid text not null, mid integer not null, mod integer not null,
+        usn integer not null, tags text not null, flds text not null, sfld integer not null,
+        csum integer not null, flags integer not null, data text not null
+    );
+    CREATE TABLE cards (
+        id integer primary key, nid integer not null, did integer not null, ord integer not null,
+        mod integer not null, usn integer not null, type integer not null, queue integer not null,
+        due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+        lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+        flags integer not null, data text not null
+    );
+    CREATE TABLE revlog (
+        id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+        ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+        type integer not null
+    );
+    CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+    CREATE INDEX ix_notes_usn on notes (usn);
+    CREATE INDEX ix_cards_usn on cards (usn);
+    CREATE INDEX ix_revlog_usn on revlog (usn);
+    CREATE INDEX ix_cards_nid on cards (nid);
+    CREATE INDEX ix_cards_sched on cards (did, queue, due);
+    CREATE INDEX ix_revlog_cid on revlog (cid);
+    CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+// Minimal zip writer (deflate, no zip64), enough for Anki and any unzip tool
+function zip(files: { name: string, data: Uint8Array }[]): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    const date = new Date();
+    const dosTime = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+    const dosDate = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+
+    for (const file of files) {
+        const name = new TextEncoder().encode(file.name);
+        const compressed = Bun.deflateSync(new Uint8Array(file.data));
+        const crc = Bun.hash.crc32(file.data);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true);               // version needed
+        local.setUint16(6, 0x0800, true);           // UTF-8 names
+        local.setUint16(8, 8, true);                // deflate
+        local.setUint16(10, dosTime, true);
+        local.setUint16(12, dosDate, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, compressed.length, true);
+        local.setUint32(22, file.data.length, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+
+        const entry = new DataView(new ArrayBuffer(46));
+        entry.setUint32(0, 0x02014b50, true);
+        entry.setUint16(4, 20, true);               // version made by
+        entry.setUint16(6, 20, true);
+        entry.setUint16(8, 0x0800, true);
+        entry.setUint16(10, 8, true);
+        entry.setUint16(12, dosTime, true);
+        entry.setUint16(14, dosDate, true);
+        entry.setUint32(16, crc, true);
+        entry.setUint32(20, compressed.length, true);
+        entry.setUint32(24, file.data.length, true);
+        entry.setUint16(28, name.length, true);
+        entry.setUint32(42, offset, true);          // local header offset, other fields stay 0
+
+        chunks.push(new Uint8Array(local.buffer), name, compressed);
+        central.push(new Uint8Array(entry.buffer), name);
+        offset += 30 + name.length + compressed.length;
+    }
+
+    const centralSize = central.reduce((sum, chunk) => sum + chunk.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, files.length, true);
+    end.setUint16(10, files.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+    const result = new Uint8Array(parts.reduce((sum, chunk) => sum + chunk.length, 0));
+    let position = 0;
+    for (const part of parts) {
+        result.set(part, position);
+        position += part.length;
+    }
+    return result;
+}
@@ -0,0 +1,48 @@
+import * as db from "./db";
+
+// ADMIN_IDS is a comma separated list, ADMIN_ID is still supported for existing deployments
+export const adminIds = [process.env.ADMIN_ID, ...(process.env.ADMIN_IDS || "").split(",")]
+    .map(id => parseInt(id?.trim() || ""))
+    .filter(id => !isNaN(id) && id !== 0);
+
+export type Permission =
+    | "study"             // open the topic and answer its questions
+    | "view_questions"    // /view with answers
+    | "add_questions"
+    | "edit_questions"    // in-chat editor in /view
+    | "delete_questions"
+    | "manage_topic"      // description, visibility, archive, rename, clean
+    | "manage_roles"      // /grant and /revoke
+    | "view_audit"        // /audit for the topic, admins can see all topics
+    | "create_topic"      // global, not tied to a topic
+    | "manage_users";     // global: /add and /remove
+
+const rolePermissions: Record<db.TopicRole, Permission[]> = {
+    viewer: ["study"],
+    editor: ["study", "view_questions", "add_questions", "edit_questions", "delete_questions"],
+    owner: ["study", "view_questions", "add_questions", "edit_questions", "delete_questions", "manage_topic", "manage_roles", "view_audit"]
+};
+
+export function isAdmin(userId: number): boolean {
+    return adminIds.includes(userId);
+}
+
+// Single place that decides who may do what. Topic permissions need the study key.
+export function can(userId: number, permission: Permission, studyKey?: string | null): boolean {
+    if (isAdmin(userId)) return true;
+
+    if (permission === "manage_users") return false;
+    if (permission === "create_topic") return db.isTrusted(userId);
+
+    if (!studyKey) return false;
+    const topic = db.getTopic(studyKey);
+    if (!topic) return false;
+    // A deleted topic only exists for the people who can restore it
+    if (topic.deletedAt && permission !== "manage_topic") return false;
+
+    const role = db.getTopicRole(studyKey, userId);
+    if (role && rolePermissions[role].includes(permission)) return true;
+
+    // Everybody may study public and unlisted topics
+    return permission === "study" && topic.visibility !== "private";
+}
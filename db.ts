@@ -1,66 +1,138 @@
 import { Database } from "bun:sqlite";
+import { MASTERED_INTERVAL_DAYS, STRUGGLING_EASE, newCard, reviewCard, startOfDay, startOfWeek, type ReviewQuality } from "./scheduler";
+import { DB_PATH, runMigrations } from "./migrations";
+import type { QuestionAnswer, QuestionType } from "./questionTypes";
 
-const db = new Database("db.sqlite");
-
-// Initialize tables
-db.run(`
-  CREATE TABLE IF NOT EXISTS users (
-    id INTEGER PRIMARY KEY,
-    current_study_key TEXT,
-    is_trusted BOOLEAN DEFAULT 0
-  );
-`);
-
-db.run(`
-  CREATE TABLE IF NOT EXISTS usernames (
-    username TEXT PRIMARY KEY,
-    user_id INTEGER
-  );
-`);
-
-db.run(`
-  CREATE TABLE IF NOT EXISTS questions (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    study_key TEXT,
-    question_text TEXT,
-    options TEXT, -- JSON array of strings
-    correct_index INTEGER,
-    created_at INTEGER DEFAULT (strftime('%s', 'now')),
-    thumbs_up INTEGER DEFAULT 0,
-    thumbs_down INTEGER DEFAULT 0
-    -- Removed last_used_at from here as usage is now per-user
-  );
-`);
-
-db.run(`
-  CREATE TABLE IF NOT EXISTS votes (
-    user_id INTEGER,
-    question_id INTEGER,
-    vote INTEGER, -- 1 for up, -1 for down
-    PRIMARY KEY (user_id, question_id)
-  );
-`);
-
-db.run(`
-  CREATE TABLE IF NOT EXISTS user_progress (
-    user_id INTEGER,
-    question_id INTEGER,
-    last_used_at INTEGER,
-    PRIMARY KEY (user_id, question_id)
-  );
-`);
-
-db.run(`
-  CREATE TABLE IF NOT EXISTS leaderboard_history (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    study_key TEXT NOT NULL,
-    leaderboard_data TEXT NOT NULL, -- JSON object with usernames as keys, counts as values
-    created_at INTEGER DEFAULT (strftime('%s', 'now'))
-  );
-`);
+const db = new Database(DB_PATH);
+
+// Bring the schema up to date, see migrations.ts
+for (const migration of runMigrations(db)) {
+  console.log(`🗄️ Applied migration ${migration.version}: ${migration.name}`);
+}
+
+export type TopicVisibility = "public" | "unlisted" | "private";
+
+export interface Topic {
+  id: number;
+  key: string;
+  description: string | null;
+  ownerId: number | null;
+  visibility: TopicVisibility;
+  archived: boolean;
+  createdAt: Date;
+  deletedAt: Date | null;
+}
+
+function mapTopic(row: any): Topic {
+  return {
+    id: row.id,
+    key: row.key,
+    description: row.description,
+    ownerId: row.owner_id,
+    visibility: row.visibility,
+    archived: !!row.archived,
+    createdAt: new Date(row.created_at * 1000),
+    deletedAt: row.deleted_at ? new Date(row.deleted_at * 1000) : null
+  };
+}
+
+export function getTopic(key: string): Topic | null {
+  const result = db.query("SELECT * FROM topics WHERE key = $key").get({ $key: key });
+  return result ? mapTopic(result) : null;
+}
+
+export function getTopicById(id: number): Topic | null {
+  const result = db.query("SELECT * FROM topics WHERE id = $id").get({ $id: id });
+  return result ? mapTopic(result) : null;
+}
+
+export function createTopic(key: string, ownerId: number | null, visibility: TopicVisibility = "public") {
+  db.transaction(() => {
+    const created = db.query(`
+      INSERT INTO topics (key, owner_id, visibility)
+      VALUES ($key, $ownerId, $visibility)
+      ON CONFLICT(key) DO NOTHING
+    `).run({ $key: key, $ownerId: ownerId, $visibility: visibility });
+    if (created.changes > 0) {
+      db.query("UPDATE topics SET id = rowid WHERE key = $key").run({ $key: key });
+    }
+
+    if (created.changes > 0 && ownerId !== null) {
+      setTopicRole(key, ownerId, "owner", ownerId);
+    }
+  })();
+}
+
+export function updateTopic(key: string, changes: { description?: string | null, visibility?: TopicVisibility, archived?: boolean }) {
+  const topic = getTopic(key);
+  if (!topic) return;
+
+  db.query(`
+    UPDATE topics SET description = $description, visibility = $visibility, archived = $archived
+    WHERE key = $key
+  `).run({
+    $key: key,
+    $description: changes.description !== undefined ? changes.description : topic.description,
+    $visibility: changes.visibility ?? topic.visibility,
+    $archived: (changes.archived ?? topic.archived) ? 1 : 0
+  });
+}
+
+// Topics shown in the /start list: public ones, those the user has a role in and everything for admins.
+// Unlisted and private topics can still be opened by key or link if the user has access (see auth.ts).
+export function getListedTopics(userId: number, isAdmin: boolean): Topic[] {
+  const results = db.query(`
+    SELECT * FROM topics
+    WHERE archived = 0 AND deleted_at IS NULL AND (
+      visibility = 'public'
+      OR $isAdmin
+      OR EXISTS (SELECT 1 FROM topic_roles r WHERE r.study_key = topics.key AND r.user_id = $userId)
+    )
+    ORDER BY key ASC
+  `).all({ $userId: userId, $isAdmin: isAdmin ? 1 : 0 });
+  return results.map(mapTopic);
+}
+
+export type TopicRole = "owner" | "editor" | "viewer";
+
+export function getTopicRole(studyKey: string, userId: number): TopicRole | null {
+  const result = db.query("SELECT role FROM topic_roles WHERE study_key = $studyKey AND user_id = $userId")
+    .get({ $studyKey: studyKey, $userId: userId }) as { role: TopicRole } | null;
+  return result ? result.role : null;
+}
+
+export function getTopicRoles(studyKey: string) {
+  const results = db.query(`
+    SELECT r.user_id, r.role,
+      (SELECT username FROM usernames WHERE user_id = r.user_id LIMIT 1) as username
+    FROM topic_roles r
+    WHERE r.study_key = $studyKey
+    ORDER BY CASE r.role WHEN 'owner' THEN 0 WHEN 'editor' THEN 1 ELSE 2 END, r.created_at ASC
+  `).all({ $studyKey: studyKey }) as { user_id: number, role: TopicRole, username: string | null }[];
+  return results.map(row => ({ userId: row.user_id, role: row.role, username: row.username }));
+}
+
+export function setTopicRole(studyKey: string, userId: number, role: TopicRole, grantedBy: number) {
+  db.query(`
+    INSERT INTO topic_roles (study_key, user_id, role, granted_by)
+    VALUES ($studyKey, $userId, $role, $grantedBy)
+    ON CONFLICT(study_key, user_id) DO UPDATE SET role = $role, granted_by = $grantedBy
+  `).run({ $studyKey: studyKey, $userId: userId, $role: role, $grantedBy: grantedBy });
+}
+
+export function removeTopicRole(studyKey: string, userId: number): boolean {
+  const result = db.query("DELETE FROM topic_roles WHERE study_key = $studyKey AND user_id = $userId")
+    .run({ $studyKey: studyKey, $userId: userId });
+  return result.changes > 0;
+}
 
 export function renameStudyKey(oldKey: string, newKey: string) {
   db.transaction(() => {
+    db.query("UPDATE topics SET key = $newKey WHERE key = $oldKey").run({
+      $newKey: newKey,
+      $oldKey: oldKey
+    });
+
     // Update questions
     db.query("UPDATE questions SET study_key = $newKey WHERE study_key = $oldKey").run({
       $newKey: newKey,
@@ -72,6 +144,33 @@ export function renameStudyKey(oldKey: string, newKey: string) {
       $newKey: newKey,
       $oldKey: oldKey
     });
+
+    db.query("UPDATE topic_roles SET study_key = $newKey WHERE study_key = $oldKey").run({
+      $newKey: newKey,
+      $oldKey: oldKey
+    });
+
+    // Keep leaderboards attached to the topic
+    db.query("UPDATE leaderboard_scores SET study_key = $newKey WHERE study_key = $oldKey").run({
+      $newKey: newKey,
+      $oldKey: oldKey
+    });
+    db.query("UPDATE leaderboard_history SET study_key = $newKey WHERE study_key = $oldKey").run({
+      $newKey: newKey,
+      $oldKey: oldKey
+    });
+    db.query("UPDATE sources SET study_key = $newKey WHERE study_key = $oldKey").run({
+      $newKey: newKey,
+      $oldKey: oldKey
+    });
+    db.query("UPDATE exams SET study_key = $newKey WHERE study_key = $oldKey").run({
+      $newKey: newKey,
+      $oldKey: oldKey
+    });
+    db.query("UPDATE chats SET study_key = $newKey WHERE study_key = $oldKey").run({
+      $newKey: newKey,
+      $oldKey: oldKey
+    });
   })();
 }
 
@@ -84,6 +183,21 @@ export function setUserStudyKey(userId: number, key: string) {
   query.run({ $id: userId, $key: key });
 }
 
+export type AnswerMode = "choice" | "open";
+
+export function getAnswerMode(userId: number): AnswerMode {
+  const result = db.query("SELECT answer_mode FROM users WHERE id = $id").get({ $id: userId }) as { answer_mode: AnswerMode } | null;
+  return result?.answer_mode ?? "choice";
+}
+
+export function setAnswerMode(userId: number, mode: AnswerMode) {
+  db.query(`
+    INSERT INTO users (id, answer_mode, is_trusted)
+    VALUES ($id, $mode, 0)
+    ON CONFLICT(id) DO UPDATE SET answer_mode = $mode
+  `).run({ $id: userId, $mode: mode });
+}
+
 export function setTrusted(userId: number, isTrusted: boolean) {
   const query = db.query(`
     INSERT INTO users (id, is_trusted) 
@@ -121,36 +235,63 @@ export function getUserStudyKey(userId: number): string | null {
 }
 
 export function getAllStudyKeys(): string[] {
-  const query = db.query("SELECT DISTINCT study_key FROM questions ORDER BY study_key ASC");
+  const query = db.query("SELECT key as study_key FROM topics WHERE deleted_at IS NULL ORDER BY key ASC");
   const results = query.all() as { study_key: string }[];
   return results.map(r => r.study_key);
 }
 
 export function getQuestionCount(studyKey: string): number {
-  const query = db.query("SELECT COUNT(*) as count FROM questions WHERE study_key = $studyKey");
+  const query = db.query("SELECT COUNT(*) as count FROM questions WHERE study_key = $studyKey AND deleted_at IS NULL");
   const result = query.get({ $studyKey: studyKey }) as { count: number };
   return result ? result.count : 0;
 }
 
-export function saveQuestion(studyKey: string, question: string, options: string[], correctIndex: number): number {
+export function saveQuestion(
+  studyKey: string,
+  question: string,
+  options: string[],
+  correctIndex: number,
+  type: QuestionType = "single",
+  answer: QuestionAnswer = null,
+  explanation: string | null = null,
+  sourceId: number | null = null
+): number {
+  createTopic(studyKey, null);
   const query = db.query(`
-    INSERT INTO questions (study_key, question_text, options, correct_index)
-    VALUES ($studyKey, $question, $options, $correctIndex)
+    INSERT INTO questions (study_key, question_text, options, correct_index, type, answer, explanation, source_id)
+    VALUES ($studyKey, $question, $options, $correctIndex, $type, $answer, $explanation, $sourceId)
     RETURNING id
   `);
   const result = query.get({
     $studyKey: studyKey,
     $question: question,
     $options: JSON.stringify(options),
-    $correctIndex: correctIndex
+    $correctIndex: correctIndex,
+    $type: type,
+    $answer: answer === null ? null : JSON.stringify(answer),
+    $explanation: explanation,
+    $sourceId: sourceId
   }) as { id: number };
   
   return result.id;
 }
 
-export function clearQuestions(studyKey: string) {
-  const query = db.query("DELETE FROM questions WHERE study_key = $studyKey");
-  query.run({ $studyKey: studyKey });
+// options and answer are stored as JSON
+function parseQuestionRow<T extends { options: string, answer: string | null }>(row: T): Omit<T, "options" | "answer"> & { options: string[], answer: QuestionAnswer } {
+  return {
+    ...row,
+    options: JSON.parse(row.options) as string[],
+    answer: (row.answer === null ? null : JSON.parse(row.answer)) as QuestionAnswer
+  };
+}
+
+// Moves every question of the topic to the trash
+export function clearQuestions(studyKey: string, actorId: number): number {
+  const query = db.query(`
+    UPDATE questions SET deleted_at = strftime('%s', 'now'), deleted_by = $actorId
+    WHERE study_key = $studyKey AND deleted_at IS NULL
+  `);
+  return query.run({ $studyKey: studyKey, $actorId: actorId }).changes;
 }
 
 export function addVote(userId: number, questionId: number, isUpvote: boolean) {
@@ -203,14 +344,26 @@ export function getQuestionStats(questionId: number) {
   return result || { thumbs_up: 0, thumbs_down: 0 };
 }
 
-export function getQuestionById(questionId: number) {
-  const query = db.query("SELECT * FROM questions WHERE id = $id");
-  const result = query.get({ $id: questionId }) as any;
+export function getQuestionById(questionId: number, includeDeleted: boolean = false) {
+  const query = db.query("SELECT * FROM questions WHERE id = $id AND ($includeDeleted OR deleted_at IS NULL)");
+  const result = query.get({ $id: questionId, $includeDeleted: includeDeleted ? 1 : 0 }) as {
+    id: number,
+    study_key: string,
+    question_text: string,
+    options: string,
+    correct_index: number,
+    type: QuestionType,
+    answer: string | null,
+    explanation: string | null,
+    source_id: number | null,
+    created_at: number,
+    thumbs_up: number,
+    thumbs_down: number,
+    deleted_at: number | null,
+    deleted_by: number | null
+  } | null;
   if (result) {
-    return {
-      ...result,
-      options: JSON.parse(result.options) as string[]
-    };
+    return parseQuestionRow(result);
   }
   return null;
 }
@@ -218,29 +371,136 @@ export function getQuestionById(questionId: number) {
 export function getQuestions(studyKey: string, page: number, pageSize: number = 5) {
   const offset = (page - 1) * pageSize;
   const query = db.query(`
-    SELECT id, question_text, options, correct_index, thumbs_up, thumbs_down,
+    SELECT id, question_text, options, correct_index, type, answer, source_id, thumbs_up, thumbs_down,
     (CAST(thumbs_up AS REAL) + 1.0) / (CAST(thumbs_up AS REAL) + CAST(thumbs_down AS REAL) + 2.0) as rating
     FROM questions 
-    WHERE study_key = $studyKey 
+    WHERE study_key = $studyKey AND deleted_at IS NULL
     ORDER BY rating ASC, id DESC
     LIMIT $limit OFFSET $offset
   `);
   
-  const totalQuery = db.query("SELECT COUNT(*) as count FROM questions WHERE study_key = $studyKey");
+  const totalQuery = db.query("SELECT COUNT(*) as count FROM questions WHERE study_key = $studyKey AND deleted_at IS NULL");
   const total = (totalQuery.get({ $studyKey: studyKey }) as { count: number }).count;
   
   const questions = query.all({ 
     $studyKey: studyKey, 
     $limit: pageSize, 
     $offset: offset 
-  }) as { id: number, question_text: string, options: string, correct_index: number, thumbs_up: number, thumbs_down: number }[];
+  }) as { id: number, question_text: string, options: string, correct_index: number, type: QuestionType, answer: string | null, source_id: number | null, thumbs_up: number, thumbs_down: number }[];
+
+  return { questions: questions.map(parseQuestionRow), total, totalPages: Math.ceil(total / pageSize) };
+}
+
+// Every question of the topic, for export and duplicate checks
+export function getTopicQuestions(studyKey: string) {
+  const query = db.query(`
+    SELECT id, question_text, options, correct_index, type, answer, explanation, thumbs_up, thumbs_down
+    FROM questions
+    WHERE study_key = $studyKey AND deleted_at IS NULL
+    ORDER BY id ASC
+  `);
+  const results = query.all({ $studyKey: studyKey }) as {
+    id: number,
+    question_text: string,
+    options: string,
+    correct_index: number,
+    type: QuestionType,
+    answer: string | null,
+    explanation: string | null,
+    thumbs_up: number,
+    thumbs_down: number
+  }[];
+  return results.map(parseQuestionRow);
+}
 
-  return { questions, total, totalPages: Math.ceil(total / pageSize) };
+// All or nothing, so a failed import never leaves half a deck behind
+export function importQuestions(
+  studyKey: string,
+  questions: { question: string, options: string[], correctIndex: number, type?: QuestionType, answer?: QuestionAnswer, explanation?: string | null }[]
+): number[] {
+  return db.transaction(() => questions.map(q => saveQuestion(studyKey, q.question, q.options, q.correctIndex, q.type, q.answer, q.explanation)))();
+}
+
+export type SourceKind = "text" | "photo" | "file";
+
+export interface Source {
+  id: number;
+  studyKey: string;
+  submittedBy: number | null;
+  submitterUsername: string | null;
+  kind: SourceKind;
+  fileName: string | null;
+  fromPage: number | null;
+  toPage: number | null;
+  text: string;
+  createdAt: Date;
+}
+
+export type NewSource = Pick<Source, "studyKey" | "submittedBy" | "kind" | "fileName" | "fromPage" | "toPage" | "text">;
+
+export function saveSource(source: NewSource): number {
+  const result = db.query(`
+    INSERT INTO sources (study_key, submitted_by, kind, file_name, from_page, to_page, text)
+    VALUES ($studyKey, $submittedBy, $kind, $fileName, $fromPage, $toPage, $text)
+    RETURNING id
+  `).get({
+    $studyKey: source.studyKey,
+    $submittedBy: source.submittedBy,
+    $kind: source.kind,
+    $fileName: source.fileName,
+    $fromPage: source.fromPage,
+    $toPage: source.toPage,
+    $text: source.text
+  }) as { id: number };
+  return result.id;
+}
+
+export function getSource(id: number): Source | null {
+  const row = db.query(`
+    SELECT s.*, (SELECT username FROM usernames WHERE user_id = s.submitted_by LIMIT 1) as username
+    FROM sources s
+    WHERE s.id = $id
+  `).get({ $id: id }) as any;
+  if (!row) return null;
+  return {
+    id: row.id,
+    studyKey: row.study_key,
+    submittedBy: row.submitted_by,
+    submitterUsername: row.username,
+    kind: row.kind,
+    fileName: row.file_name,
+    fromPage: row.from_page,
+    toPage: row.to_page,
+    text: row.text,
+    createdAt: new Date(row.created_at * 1000)
+  };
+}
+
+// Questions generated from the source that are not in the trash
+export function getSourceQuestionIds(sourceId: number): number[] {
+  return (db.query("SELECT id FROM questions WHERE source_id = $sourceId AND deleted_at IS NULL ORDER BY id ASC")
+    .all({ $sourceId: sourceId }) as { id: number }[]).map(row => row.id);
+}
+
+// Embeddings computed with a different model are treated as missing
+export function getQuestionEmbeddings(questionIds: number[], model: string): Map<number, number[]> {
+  const query = db.query("SELECT vector FROM question_embeddings WHERE question_id = $id AND model = $model");
+  const result = new Map<number, number[]>();
+  for (const id of questionIds) {
+    const row = query.get({ $id: id, $model: model }) as { vector: string } | null;
+    if (row) result.set(id, JSON.parse(row.vector));
+  }
+  return result;
+}
+
+export function saveQuestionEmbedding(questionId: number, model: string, vector: number[]) {
+  db.query("INSERT OR REPLACE INTO question_embeddings (question_id, model, vector) VALUES ($id, $model, $vector)")
+    .run({ $id: questionId, $model: model, $vector: JSON.stringify(vector) });
 }
 
 export function getAllQuestionsRaw() {
-  const query = db.query("SELECT id, study_key, question_text, options, correct_index FROM questions");
-  return query.all() as { id: number, study_key: string, question_text: string, options: string, correct_index: number }[];
+  const query = db.query("SELECT id, study_key, question_text, options, correct_index, type FROM questions WHERE deleted_at IS NULL");
+  return query.all() as { id: number, study_key: string, question_text: string, options: string, correct_index: number, type: QuestionType }[];
 }
 
 export function updateQuestionOptions(id: number, options: string[], correctIndex: number) {
@@ -248,59 +508,292 @@ export function updateQuestionOptions(id: number, options: string[], correctInde
   query.run({ $id: id, $options: JSON.stringify(options), $correctIndex: correctIndex });
 }
 
-export function deleteQuestion(questionId: number) {
-  db.run("DELETE FROM questions WHERE id = $id", { $id: questionId });
-  db.run("DELETE FROM votes WHERE question_id = $id", { $id: questionId });
-  db.run("DELETE FROM user_progress WHERE question_id = $id", { $id: questionId });
+export function setQuestionExplanation(id: number, explanation: string) {
+  db.query("UPDATE questions SET explanation = $explanation WHERE id = $id").run({ $id: id, $explanation: explanation });
 }
 
-export function generateLeaderboards() {
-  const studyKeys = getAllStudyKeys();
+// Questions saved before explanations existed, oldest first
+export function getQuestionsWithoutExplanation() {
+  const query = db.query(`
+    SELECT id, question_text, options, correct_index, type, answer
+    FROM questions
+    WHERE explanation IS NULL AND deleted_at IS NULL
+    ORDER BY id ASC
+  `);
+  const results = query.all() as { id: number, question_text: string, options: string, correct_index: number, type: QuestionType, answer: string | null }[];
+  return results.map(parseQuestionRow);
+}
 
-  for (const studyKey of studyKeys) {
-    // Count user attempts per topic
-    const userCounts = new Map<number, number>();
+// The old explanation may talk about options that are gone, it is written again when asked for
+export function updateQuestion(id: number, questionText: string, options: string[], correctIndex: number) {
+  db.transaction(() => {
+    db.query("UPDATE questions SET question_text = $questionText, options = $options, correct_index = $correctIndex, explanation = NULL WHERE id = $id")
+      .run({ $id: id, $questionText: questionText, $options: JSON.stringify(options), $correctIndex: correctIndex });
+    db.query("DELETE FROM question_embeddings WHERE question_id = $id").run({ $id: id });
+  })();
+}
 
-    const progressQuery = db.query(`
-      SELECT p.user_id
-      FROM user_progress p
-      JOIN questions q ON p.question_id = q.id
-      WHERE q.study_key = $studyKey
-    `);
+// Moves the question to the trash, see purgeQuestion for the permanent removal
+export function deleteQuestion(questionId: number, actorId: number) {
+  db.query("UPDATE questions SET deleted_at = strftime('%s', 'now'), deleted_by = $actorId WHERE id = $id")
+    .run({ $id: questionId, $actorId: actorId });
+}
 
-    const progressResults = progressQuery.all({ $studyKey: studyKey }) as { user_id: number }[];
+export function restoreQuestion(questionId: number) {
+  db.query("UPDATE questions SET deleted_at = NULL, deleted_by = NULL WHERE id = $id").run({ $id: questionId });
+}
 
-    // Count attempts per user
-    for (const row of progressResults) {
-      const currentCount = userCounts.get(row.user_id) || 0;
-      userCounts.set(row.user_id, currentCount + 1);
-    }
+// Removes the question and everything attached to it for good. The image has to be deleted by the caller.
+export function purgeQuestion(questionId: number) {
+  db.transaction(() => {
+    removeLeaderboardPoints(questionId);
+    db.query("DELETE FROM questions WHERE id = $id").run({ $id: questionId });
+    db.query("DELETE FROM votes WHERE question_id = $id").run({ $id: questionId });
+    db.query("DELETE FROM user_progress WHERE question_id = $id").run({ $id: questionId });
+    db.query("DELETE FROM attempts WHERE question_id = $id").run({ $id: questionId });
+    db.query("DELETE FROM question_embeddings WHERE question_id = $id").run({ $id: questionId });
+  })();
+}
 
-    // Map user IDs to usernames
-    const leaderboard: Record<string, number> = {};
+export function getTrashedQuestions(studyKey: string, page: number, pageSize: number = 5) {
+  const offset = (page - 1) * pageSize;
+  const questions = db.query(`
+    SELECT id, question_text, options, correct_index, type, answer, deleted_at, deleted_by
+    FROM questions
+    WHERE study_key = $studyKey AND deleted_at IS NOT NULL
+    ORDER BY deleted_at DESC, id DESC
+    LIMIT $limit OFFSET $offset
+  `).all({ $studyKey: studyKey, $limit: pageSize, $offset: offset }) as {
+    id: number,
+    question_text: string,
+    options: string,
+    correct_index: number,
+    type: QuestionType,
+    answer: string | null,
+    deleted_at: number,
+    deleted_by: number | null
+  }[];
 
-    for (const [userId, count] of userCounts.entries()) {
-      // Look up username
-      const usernameQuery = db.query("SELECT username FROM usernames WHERE user_id = $userId");
-      const usernameResult = usernameQuery.get({ $userId: userId }) as { username: string } | null;
+  const total = (db.query("SELECT COUNT(*) as count FROM questions WHERE study_key = $studyKey AND deleted_at IS NOT NULL")
+    .get({ $studyKey: studyKey }) as { count: number }).count;
 
-      const key = usernameResult ? usernameResult.username : `user_${userId}`;
-      leaderboard[key] = count;
-    }
+  return { questions: questions.map(parseQuestionRow), total, totalPages: Math.max(1, Math.ceil(total / pageSize)) };
+}
+
+// Deleting a topic hides it together with its questions, they come back when the topic is restored
+export function deleteTopic(key: string, actorId: number) {
+  db.query("UPDATE topics SET deleted_at = strftime('%s', 'now'), deleted_by = $actorId WHERE key = $key")
+    .run({ $key: key, $actorId: actorId });
+}
+
+export function restoreTopic(key: string) {
+  db.query("UPDATE topics SET deleted_at = NULL, deleted_by = NULL WHERE key = $key").run({ $key: key });
+}
 
-    // Store leaderboard
-    const insertQuery = db.query(`
-      INSERT INTO leaderboard_history (study_key, leaderboard_data)
-      VALUES ($studyKey, $leaderboardData)
-    `);
+// Returns the ids of the purged questions so their images can be removed
+export function purgeTopic(key: string): number[] {
+  const ids = (db.query("SELECT id FROM questions WHERE study_key = $key").all({ $key: key }) as { id: number }[]).map(r => r.id);
+  db.transaction(() => {
+    for (const id of ids) purgeQuestion(id);
+    db.query("DELETE FROM topics WHERE key = $key").run({ $key: key });
+    db.query("DELETE FROM topic_roles WHERE study_key = $key").run({ $key: key });
+    db.query("DELETE FROM sources WHERE study_key = $key").run({ $key: key });
+    db.query("DELETE FROM leaderboard_scores WHERE study_key = $key").run({ $key: key });
+    db.query("UPDATE users SET current_study_key = NULL WHERE current_study_key = $key").run({ $key: key });
+    db.query("UPDATE chats SET study_key = NULL WHERE study_key = $key").run({ $key: key });
+  })();
+  return ids;
+}
+
+export function getDeletedTopics(): Topic[] {
+  return db.query("SELECT * FROM topics WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC").all().map(mapTopic);
+}
+
+// Purges questions and topics that have been in the trash longer than the retention period
+export function purgeExpiredTrash(retentionDays: number) {
+  const cutoff = Math.floor(Date.now() / 1000) - retentionDays * 24 * 60 * 60;
+
+  const topics = (db.query("SELECT key FROM topics WHERE deleted_at < $cutoff").all({ $cutoff: cutoff }) as { key: string }[])
+    .map(r => r.key);
+  const questionIds = topics.flatMap(key => purgeTopic(key));
+
+  const expired = db.query("SELECT id FROM questions WHERE deleted_at < $cutoff").all({ $cutoff: cutoff }) as { id: number }[];
+  for (const { id } of expired) {
+    purgeQuestion(id);
+    questionIds.push(id);
+  }
+
+  return { topics, questionIds };
+}
+
+export type LeaderboardWindow = "day" | "week" | "all";
+
+function leaderboardWindowStart(window: LeaderboardWindow, now: number = Date.now()): number {
+  if (window === "day") return startOfDay(now);
+  if (window === "week") return startOfWeek(now);
+  return 0;
+}
 
-    insertQuery.run({
+function addLeaderboardPoint(studyKey: string, userId: number, now: number) {
+  const query = db.query(`
+    INSERT INTO leaderboard_scores (study_key, period, period_start, user_id, score, last_scored_at)
+    VALUES ($studyKey, $period, $periodStart, $userId, 1, $now)
+    ON CONFLICT(study_key, period, period_start, user_id) DO UPDATE SET
+      score = score + 1,
+      last_scored_at = $now
+  `);
+  for (const period of ["day", "week", "all"] as const) {
+    query.run({
       $studyKey: studyKey,
-      $leaderboardData: JSON.stringify(leaderboard)
+      $period: period,
+      $periodStart: leaderboardWindowStart(period, now),
+      $userId: userId,
+      $now: now
     });
   }
 }
 
+// Takes back the points addLeaderboardPoint gave for the question's attempts, before they are purged
+function removeLeaderboardPoints(questionId: number) {
+  const question = db.query("SELECT study_key FROM questions WHERE id = $id").get({ $id: questionId }) as { study_key: string } | null;
+  if (!question) return;
+
+  const scored = db.query(`
+    SELECT user_id, created_at FROM attempts
+    WHERE question_id = $id AND is_first_try = 1 AND is_correct = 1
+  `).all({ $id: questionId }) as { user_id: number, created_at: number }[];
+
+  const query = db.query(`
+    UPDATE leaderboard_scores SET score = score - 1
+    WHERE study_key = $studyKey AND period = $period AND period_start = $periodStart AND user_id = $userId
+  `);
+  for (const attempt of scored) {
+    for (const period of ["day", "week", "all"] as const) {
+      query.run({
+        $studyKey: question.study_key,
+        $period: period,
+        $periodStart: leaderboardWindowStart(period, attempt.created_at),
+        $userId: attempt.user_id
+      });
+    }
+  }
+  if (scored.length > 0) {
+    db.query("DELETE FROM leaderboard_scores WHERE study_key = $studyKey AND score <= 0").run({ $studyKey: question.study_key });
+  }
+}
+
+// Ranking by correct first-try answers within a time window
+export function getLeaderboard(studyKey: string, window: LeaderboardWindow, limit: number = 5) {
+  const query = db.query(`
+    SELECT s.user_id,
+      COALESCE((SELECT username FROM usernames WHERE user_id = s.user_id LIMIT 1), 'user_' || s.user_id) as username,
+      s.score
+    FROM leaderboard_scores s
+    WHERE s.study_key = $studyKey AND s.period = $period AND s.period_start = $periodStart
+    ORDER BY s.score DESC, s.last_scored_at ASC
+    LIMIT $limit
+  `);
+
+  const results = query.all({
+    $studyKey: studyKey,
+    $period: window,
+    $periodStart: leaderboardWindowStart(window),
+    $limit: limit
+  }) as { user_id: number, username: string, score: number }[];
+
+  return results.map(row => ({ userId: row.user_id, username: row.username, score: row.score }));
+}
+
+export function getUserRank(studyKey: string, window: LeaderboardWindow, userId: number): { rank: number, score: number } | null {
+  const params = {
+    $studyKey: studyKey,
+    $period: window,
+    $periodStart: leaderboardWindowStart(window),
+    $userId: userId
+  };
+
+  const own = db.query(`
+    SELECT score FROM leaderboard_scores
+    WHERE study_key = $studyKey AND period = $period AND period_start = $periodStart AND user_id = $userId
+  `).get(params) as { score: number } | null;
+  if (!own) return null;
+
+  const ahead = db.query(`
+    SELECT COUNT(*) as count FROM leaderboard_scores
+    WHERE study_key = $studyKey AND period = $period AND period_start = $periodStart AND score > $score
+  `).get({ $studyKey: params.$studyKey, $period: params.$period, $periodStart: params.$periodStart, $score: own.score }) as { count: number };
+
+  return { rank: ahead.count + 1, score: own.score };
+}
+
+// Writes an all-time leaderboard snapshot for every topic whose standings differ from its latest snapshot
+export function snapshotLeaderboards(): number {
+  const rows = db.query(`
+    SELECT s.study_key,
+      COALESCE((SELECT username FROM usernames WHERE user_id = s.user_id LIMIT 1), 'user_' || s.user_id) as username,
+      s.score
+    FROM leaderboard_scores s
+    WHERE s.period = 'all'
+    ORDER BY s.study_key ASC, s.score DESC, s.last_scored_at ASC
+  `).all() as { study_key: string, username: string, score: number }[];
+
+  const current = new Map<string, Record<string, number>>();
+  for (const row of rows) {
+    const leaderboard = current.get(row.study_key) ?? {};
+    leaderboard[row.username] = row.score;
+    current.set(row.study_key, leaderboard);
+  }
+
+  const latest = new Map(getLatestLeaderboards().map(lb => [lb.studyKey, JSON.stringify(lb.leaderboard)]));
+  const insertQuery = db.query(`
+    INSERT INTO leaderboard_history (study_key, leaderboard_data)
+    VALUES ($studyKey, $leaderboardData)
+  `);
+
+  let written = 0;
+  db.transaction(() => {
+    for (const [studyKey, leaderboard] of current) {
+      const data = JSON.stringify(leaderboard);
+      if (latest.get(studyKey) === data) continue;
+      insertQuery.run({ $studyKey: studyKey, $leaderboardData: data });
+      written++;
+    }
+  })();
+  return written;
+}
+
+// Retention for leaderboard_history and the day/week aggregates:
+// every snapshot is kept for fullDays, then one per topic per day until dailyDays, then dropped.
+// The latest snapshot of a topic is never removed.
+export function compactLeaderboardHistory(fullDays: number, dailyDays: number) {
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const daySeconds = 24 * 60 * 60;
+
+  db.transaction(() => {
+    db.query(`
+      DELETE FROM leaderboard_history
+      WHERE created_at < $fullCutoff
+        AND id NOT IN (SELECT MAX(id) FROM leaderboard_history GROUP BY study_key)
+        AND id NOT IN (
+          SELECT MAX(id) FROM leaderboard_history
+          WHERE created_at >= $dailyCutoff
+          GROUP BY study_key, created_at / $daySeconds
+        )
+    `).run({
+      $fullCutoff: nowSeconds - fullDays * daySeconds,
+      $dailyCutoff: nowSeconds - dailyDays * daySeconds,
+      $daySeconds: daySeconds
+    });
+
+    // Only the current day and week are ever shown, older aggregates follow the same retention
+    const now = Date.now();
+    db.query("DELETE FROM leaderboard_scores WHERE period = 'day' AND period_start < $cutoff")
+      .run({ $cutoff: startOfDay(now) - fullDays * daySeconds * 1000 });
+    db.query("DELETE FROM leaderboard_scores WHERE period = 'week' AND period_start < $cutoff")
+      .run({ $cutoff: startOfWeek(now) - dailyDays * daySeconds * 1000 });
+  })();
+}
+
 export function getLatestLeaderboards() {
   // Get the latest leaderboard entry for each study key
   const query = db.query(`
@@ -332,7 +825,7 @@ export function getLeaderboardHistory(studyKey: string, limit: number = 10) {
   const query = db.query(`
     SELECT * FROM leaderboard_history
     WHERE study_key = $studyKey
-    ORDER BY created_at DESC
+    ORDER BY id DESC
     LIMIT $limit
   `);
 
@@ -352,56 +845,577 @@ export function getLeaderboardHistory(studyKey: string, limit: number = 10) {
   }));
 }
 
-export function getRandomQuestion(studyKey: string, userId: number) {
-  // First try to find questions never used BY THIS USER
-  // Sort by approval rate: (thumbs_up + 1) / (thumbs_up + thumbs_down + 2)
-  let query = db.query(`
-    SELECT q.*,
-      (CAST(q.thumbs_up AS REAL) + 1.0) / (CAST(q.thumbs_up AS REAL) + CAST(q.thumbs_down AS REAL) + 2.0) as weight
+export type NextQuestion =
+  | { status: "due" | "new", question: { id: number, question_text: string, options: string[], correct_index: number, type: QuestionType, answer: QuestionAnswer } }
+  | { status: "done", nextDueAt: number | null, newLimitReached: boolean }
+  | { status: "empty" };
+
+export function getNextQuestion(studyKey: string, userId: number, newCardsPerDay: number): NextQuestion {
+  const now = Date.now();
+
+  // Cards this user has already seen and that are due for review, most overdue first
+  let result = db.query(`
+    SELECT q.*
     FROM questions q
-    LEFT JOIN user_progress up ON q.id = up.question_id AND up.user_id = $userId
-    WHERE q.study_key = $studyKey AND up.last_used_at IS NULL
-    ORDER BY weight DESC, RANDOM()
+    JOIN user_progress up ON q.id = up.question_id AND up.user_id = $userId
+    WHERE q.study_key = $studyKey AND q.deleted_at IS NULL AND up.due_at <= $now
+    ORDER BY up.due_at ASC
     LIMIT 1
-  `);
-  
-  let result = query.get({ $studyKey: studyKey, $userId: userId }) as any;
+  `).get({ $studyKey: studyKey, $userId: userId, $now: now }) as any;
+  let status: "due" | "new" = "due";
 
-  // If no unused questions, pick the Least Recently Used (LRU) for this user
+  // Then new cards, as long as the daily limit allows it
+  // Sort by approval rate: (thumbs_up + 1) / (thumbs_up + thumbs_down + 2)
+  let newLimitReached = false;
   if (!result) {
-      query = db.query(`
-        SELECT q.* 
+    const introducedToday = (db.query(`
+      SELECT COUNT(*) as count
+      FROM user_progress up
+      JOIN questions q ON q.id = up.question_id
+      WHERE up.user_id = $userId AND q.study_key = $studyKey AND up.introduced_at >= $dayStart
+    `).get({ $userId: userId, $studyKey: studyKey, $dayStart: startOfDay(now) }) as { count: number }).count;
+
+    newLimitReached = introducedToday >= newCardsPerDay;
+    if (!newLimitReached) {
+      result = db.query(`
+        SELECT q.*,
+          (CAST(q.thumbs_up AS REAL) + 1.0) / (CAST(q.thumbs_up AS REAL) + CAST(q.thumbs_down AS REAL) + 2.0) as weight
         FROM questions q
-        JOIN user_progress up ON q.id = up.question_id
-        WHERE q.study_key = $studyKey AND up.user_id = $userId
-        ORDER BY up.last_used_at ASC
+        LEFT JOIN user_progress up ON q.id = up.question_id AND up.user_id = $userId
+        WHERE q.study_key = $studyKey AND q.deleted_at IS NULL AND up.question_id IS NULL
+        ORDER BY weight DESC, RANDOM()
         LIMIT 1
-      `);
-      result = query.get({ $studyKey: studyKey, $userId: userId }) as any;
+      `).get({ $studyKey: studyKey, $userId: userId }) as any;
+      status = "new";
+    }
   }
-  
-  // If still no result (maybe edge case where only some have progress but filtering logic missed),
-  // fallback to ANY question in the group (should have been covered by first query if partial progress exists)
-  // But strictly: if all have progress, query 2 covers it. If some have progress, query 1 covers the rest.
-  // The only case result is null is if there are NO questions for this studyKey at all.
+
   if (!result) {
-       query = db.query(`SELECT * FROM questions WHERE study_key = $studyKey LIMIT 1`);
-       result = query.get({ $studyKey: studyKey }) as any;
+    if (getQuestionCount(studyKey) === 0) return { status: "empty" };
+
+    const next = db.query(`
+      SELECT MIN(up.due_at) as due_at
+      FROM user_progress up
+      JOIN questions q ON q.id = up.question_id
+      WHERE up.user_id = $userId AND q.study_key = $studyKey AND q.deleted_at IS NULL
+    `).get({ $userId: userId, $studyKey: studyKey }) as { due_at: number | null };
+    return { status: "done", nextDueAt: next.due_at, newLimitReached };
   }
 
-  if (result) {
-    // Update or Insert last_used_at for this user
-    const update = db.query(`
-      INSERT INTO user_progress (user_id, question_id, last_used_at)
-      VALUES ($userId, $questionId, $now)
-      ON CONFLICT(user_id, question_id) DO UPDATE SET last_used_at = $now
-    `);
-    update.run({ $userId: userId, $questionId: result.id, $now: Date.now() });
-
-    return {
-      ...result,
-      options: JSON.parse(result.options) as string[]
-    };
+  markQuestionServed(userId, result.id, now);
+
+  return {
+    status,
+    question: parseQuestionRow(result as { id: number, question_text: string, options: string, correct_index: number, type: QuestionType, answer: string | null })
+  };
+}
+
+// A served card stays due until it is answered, so an ignored question comes back first
+export function markQuestionServed(userId: number, questionId: number, now: number = Date.now()) {
+  db.query(`
+    INSERT INTO user_progress (user_id, question_id, last_used_at, introduced_at, due_at)
+    VALUES ($userId, $questionId, $now, $now, $now)
+    ON CONFLICT(user_id, question_id) DO UPDATE SET last_used_at = $now
+  `).run({ $userId: userId, $questionId: questionId, $now: now });
+}
+
+// Logs a single click on an answer option.
+// servedAt is when the question was sent, it defaults to the last time it was served to this user.
+export function recordAttempt(userId: number, questionId: number, selectedIndex: number | null, isCorrect: boolean, servedAt: number | null) {
+  const now = Date.now();
+  return db.transaction(() => {
+    if (servedAt === null) {
+      const progress = db.query("SELECT last_used_at FROM user_progress WHERE user_id = $userId AND question_id = $questionId")
+        .get({ $userId: userId, $questionId: questionId }) as { last_used_at: number | null } | null;
+      servedAt = progress?.last_used_at ?? null;
+    }
+
+    // Any earlier attempt on this serving means the user is already guessing through the options
+    const previous = db.query(`
+      SELECT COUNT(*) as count FROM attempts
+      WHERE user_id = $userId AND question_id = $questionId AND created_at >= $servedAt
+    `).get({ $userId: userId, $questionId: questionId, $servedAt: servedAt ?? 0 }) as { count: number };
+
+    const isFirstTry = previous.count === 0;
+    const responseMs = servedAt !== null ? Math.max(0, now - servedAt) : null;
+
+    db.query(`
+      INSERT INTO attempts (user_id, question_id, selected_index, is_correct, is_first_try, response_ms, created_at)
+      VALUES ($userId, $questionId, $selectedIndex, $isCorrect, $isFirstTry, $responseMs, $now)
+    `).run({
+      $userId: userId,
+      $questionId: questionId,
+      $selectedIndex: selectedIndex,
+      $isCorrect: isCorrect ? 1 : 0,
+      $isFirstTry: isFirstTry ? 1 : 0,
+      $responseMs: responseMs,
+      $now: now
+    });
+
+    if (isFirstTry && isCorrect) {
+      const question = db.query("SELECT study_key FROM questions WHERE id = $questionId")
+        .get({ $questionId: questionId }) as { study_key: string } | null;
+      if (question) addLeaderboardPoint(question.study_key, userId, now);
+    }
+
+    return { isFirstTry, responseMs };
+  })();
+}
+
+// Should only be called for the first attempt on a served question (see recordAttempt),
+// clicking through the remaining options afterwards must not reset the schedule again
+export function recordReview(userId: number, questionId: number, quality: ReviewQuality) {
+  const now = Date.now();
+  db.transaction(() => {
+    const card = db.query(`
+      SELECT ease, interval_days, repetitions, lapses
+      FROM user_progress
+      WHERE user_id = $userId AND question_id = $questionId
+    `).get({ $userId: userId, $questionId: questionId }) as {
+      ease: number,
+      interval_days: number,
+      repetitions: number,
+      lapses: number
+    } | null;
+
+    const next = reviewCard(card ? {
+      ease: card.ease,
+      intervalDays: card.interval_days,
+      repetitions: card.repetitions,
+      lapses: card.lapses
+    } : newCard(), quality, now);
+
+    db.query(`
+      INSERT INTO user_progress (user_id, question_id, last_used_at, introduced_at, ease, interval_days, repetitions, lapses, due_at, last_reviewed_at)
+      VALUES ($userId, $questionId, $now, $now, $ease, $interval, $repetitions, $lapses, $dueAt, $now)
+      ON CONFLICT(user_id, question_id) DO UPDATE SET
+        ease = $ease,
+        interval_days = $interval,
+        repetitions = $repetitions,
+        lapses = $lapses,
+        due_at = $dueAt,
+        last_reviewed_at = $now
+    `).run({
+      $userId: userId,
+      $questionId: questionId,
+      $now: now,
+      $ease: next.ease,
+      $interval: next.intervalDays,
+      $repetitions: next.repetitions,
+      $lapses: next.lapses,
+      $dueAt: next.dueAt
+    });
+  })();
+}
+
+export interface Exam {
+  id: number;
+  userId: number;
+  chatId: number;
+  studyKey: string;
+  questionCount: number;
+  position: number;
+  startedAt: number;
+  endsAt: number;
+  finishedAt: number | null;
+}
+
+function mapExam(row: any): Exam {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    chatId: row.chat_id,
+    studyKey: row.study_key,
+    questionCount: row.question_count,
+    position: row.position,
+    startedAt: row.started_at,
+    endsAt: row.ends_at,
+    finishedAt: row.finished_at
+  };
+}
+
+// Random questions of the topic, any type
+export function drawExamQuestions(studyKey: string, count: number): number[] {
+  return (db.query("SELECT id FROM questions WHERE study_key = $studyKey AND deleted_at IS NULL ORDER BY RANDOM() LIMIT $count")
+    .all({ $studyKey: studyKey, $count: count }) as { id: number }[]).map(row => row.id);
+}
+
+export function createExam(userId: number, chatId: number, studyKey: string, questionIds: number[], durationMs: number): Exam {
+  const now = Date.now();
+  return db.transaction(() => {
+    const row = db.query(`
+      INSERT INTO exams (user_id, chat_id, study_key, question_count, started_at, ends_at)
+      VALUES ($userId, $chatId, $studyKey, $count, $now, $endsAt)
+      RETURNING *
+    `).get({ $userId: userId, $chatId: chatId, $studyKey: studyKey, $count: questionIds.length, $now: now, $endsAt: now + durationMs });
+    const exam = mapExam(row);
+
+    const insert = db.query("INSERT INTO exam_questions (exam_id, position, question_id) VALUES ($examId, $position, $questionId)");
+    questionIds.forEach((questionId, position) => insert.run({ $examId: exam.id, $position: position, $questionId: questionId }));
+    return exam;
+  })();
+}
+
+export function getExam(id: number): Exam | null {
+  const row = db.query("SELECT * FROM exams WHERE id = $id").get({ $id: id });
+  return row ? mapExam(row) : null;
+}
+
+export function getRunningExam(userId: number): Exam | null {
+  const row = db.query("SELECT * FROM exams WHERE user_id = $userId AND finished_at IS NULL ORDER BY id DESC LIMIT 1").get({ $userId: userId });
+  return row ? mapExam(row) : null;
+}
+
+// Used at startup to bring back the time limits
+export function getRunningExams(): Exam[] {
+  return db.query("SELECT * FROM exams WHERE finished_at IS NULL").all().map(mapExam);
+}
+
+// The questions in exam order. A question purged since the exam started has no text and type.
+export function getExamQuestions(examId: number) {
+  const rows = db.query(`
+    SELECT eq.position, eq.question_id, eq.message_id, eq.served_at, eq.answer as given_answer, eq.is_correct, eq.answered_at,
+      q.question_text, q.options, q.correct_index, q.type, q.answer
+    FROM exam_questions eq
+    LEFT JOIN questions q ON q.id = eq.question_id
+    WHERE eq.exam_id = $examId
+    ORDER BY eq.position ASC
+  `).all({ $examId: examId }) as any[];
+
+  return rows.map(row => ({
+    position: row.position as number,
+    questionId: row.question_id as number,
+    messageId: row.message_id as number | null,
+    servedAt: row.served_at as number | null,
+    givenAnswer: row.given_answer as string | null,
+    isCorrect: row.is_correct === null ? null : row.is_correct === 1,
+    answeredAt: row.answered_at as number | null,
+    question: row.question_text === null ? null : parseQuestionRow({
+      question_text: row.question_text as string,
+      options: row.options as string,
+      correct_index: row.correct_index as number,
+      type: row.type as QuestionType,
+      answer: row.answer as string | null
+    })
+  }));
+}
+
+export function setExamQuestionMessage(examId: number, position: number, messageId: number) {
+  db.query("UPDATE exam_questions SET message_id = $messageId, served_at = $now WHERE exam_id = $examId AND position = $position")
+    .run({ $examId: examId, $position: position, $messageId: messageId, $now: Date.now() });
+}
+
+// Only the first answer to the current question counts, returns false for any later one
+export function recordExamAnswer(examId: number, position: number, answer: string | null, isCorrect: boolean): boolean {
+  return db.transaction(() => {
+    const result = db.query(`
+      UPDATE exam_questions SET answer = $answer, is_correct = $isCorrect, answered_at = $now
+      WHERE exam_id = $examId AND position = $position AND answered_at IS NULL
+        AND EXISTS (SELECT 1 FROM exams WHERE id = $examId AND position = $position AND finished_at IS NULL)
+    `).run({ $examId: examId, $position: position, $answer: answer, $isCorrect: isCorrect ? 1 : 0, $now: Date.now() });
+    if (result.changes === 0) return false;
+
+    db.query("UPDATE exams SET position = position + 1 WHERE id = $examId").run({ $examId: examId });
+    return true;
+  })();
+}
+
+// The finish time never goes past the time limit, even if the bot was down when it ran out.
+// Returns false if the exam was already finished, so the report is sent only once.
+export function finishExam(examId: number): boolean {
+  const result = db.query("UPDATE exams SET finished_at = MIN($now, ends_at) WHERE id = $examId AND finished_at IS NULL")
+    .run({ $examId: examId, $now: Date.now() });
+  return result.changes > 0;
+}
+
+export function getChatStudyKey(chatId: number): string | null {
+  return getChatTopic(chatId)?.studyKey ?? null;
+}
+
+// The topic together with the chat admin who picked it, whose access the chat's questions follow
+export function getChatTopic(chatId: number): { studyKey: string, setBy: number | null } | null {
+  const result = db.query("SELECT study_key, updated_by FROM chats WHERE chat_id = $chatId AND study_key IS NOT NULL")
+    .get({ $chatId: chatId }) as { study_key: string, updated_by: number | null } | null;
+  return result ? { studyKey: result.study_key, setBy: result.updated_by } : null;
+}
+
+export function setChatStudyKey(chatId: number, key: string, userId: number) {
+  db.query(`
+    INSERT INTO chats (chat_id, study_key, updated_by) VALUES ($chatId, $key, $userId)
+    ON CONFLICT(chat_id) DO UPDATE SET study_key = $key, updated_by = $userId, updated_at = strftime('%s', 'now')
+  `).run({ $chatId: chatId, $key: key, $userId: userId });
+}
+
+export interface ChatRound {
+  id: number;
+  chatId: number;
+  questionId: number;
+  messageId: number | null;
+  startedAt: number;
+  endsAt: number;
+  closedAt: number | null;
+}
+
+function mapChatRound(row: any): ChatRound {
+  return {
+    id: row.id,
+    chatId: row.chat_id,
+    questionId: row.question_id,
+    messageId: row.message_id,
+    startedAt: row.started_at,
+    endsAt: row.ends_at,
+    closedAt: row.closed_at
+  };
+}
+
+// Questions the chat hasn't seen for the longest time come first, then the better rated ones.
+// Only types answered with one button press work for several people on one message.
+export function pickChatQuestion(chatId: number, studyKey: string): number | null {
+  const result = db.query(`
+    SELECT q.id
+    FROM questions q
+    WHERE q.study_key = $studyKey AND q.deleted_at IS NULL AND q.type IN ('single', 'true_false')
+    ORDER BY
+      (SELECT MAX(r.started_at) FROM chat_rounds r WHERE r.chat_id = $chatId AND r.question_id = q.id) ASC,
+      (CAST(q.thumbs_up AS REAL) + 1.0) / (CAST(q.thumbs_up AS REAL) + CAST(q.thumbs_down AS REAL) + 2.0) DESC,
+      RANDOM()
+    LIMIT 1
+  `).get({ $chatId: chatId, $studyKey: studyKey }) as { id: number } | null;
+  return result?.id ?? null;
+}
+
+export function createChatRound(chatId: number, questionId: number, durationMs: number): ChatRound {
+  const now = Date.now();
+  const row = db.query(`
+    INSERT INTO chat_rounds (chat_id, question_id, started_at, ends_at)
+    VALUES ($chatId, $questionId, $now, $endsAt)
+    RETURNING *
+  `).get({ $chatId: chatId, $questionId: questionId, $now: now, $endsAt: now + durationMs });
+  return mapChatRound(row);
+}
+
+export function setChatRoundMessage(roundId: number, messageId: number) {
+  db.query("UPDATE chat_rounds SET message_id = $messageId WHERE id = $id").run({ $id: roundId, $messageId: messageId });
+}
+
+export function getChatRound(roundId: number): ChatRound | null {
+  const row = db.query("SELECT * FROM chat_rounds WHERE id = $id").get({ $id: roundId });
+  return row ? mapChatRound(row) : null;
+}
+
+export function getOpenChatRound(chatId: number): ChatRound | null {
+  const row = db.query("SELECT * FROM chat_rounds WHERE chat_id = $chatId AND closed_at IS NULL ORDER BY id DESC LIMIT 1").get({ $chatId: chatId });
+  return row ? mapChatRound(row) : null;
+}
+
+// Used at startup to bring back the answer windows
+export function getOpenChatRounds(): ChatRound[] {
+  return db.query("SELECT * FROM chat_rounds WHERE closed_at IS NULL").all().map(mapChatRound);
+}
+
+// One answer per member while the round is open, returns false for anything else
+export function recordChatAnswer(roundId: number, userId: number, userName: string, selectedIndex: number, isCorrect: boolean): boolean {
+  const now = Date.now();
+  const result = db.query(`
+    INSERT OR IGNORE INTO chat_answers (round_id, user_id, user_name, selected_index, is_correct, answered_at)
+    SELECT $roundId, $userId, $userName, $selectedIndex, $isCorrect, $now
+    WHERE EXISTS (SELECT 1 FROM chat_rounds WHERE id = $roundId AND closed_at IS NULL AND ends_at > $now)
+  `).run({ $roundId: roundId, $userId: userId, $userName: userName, $selectedIndex: selectedIndex, $isCorrect: isCorrect ? 1 : 0, $now: now });
+  return result.changes > 0;
+}
+
+// Returns false if the round was already closed, so the answer is revealed only once
+export function closeChatRound(roundId: number): boolean {
+  const result = db.query("UPDATE chat_rounds SET closed_at = $now WHERE id = $id AND closed_at IS NULL")
+    .run({ $id: roundId, $now: Date.now() });
+  return result.changes > 0;
+}
+
+export function getChatRoundAnswers(roundId: number) {
+  const rows = db.query("SELECT user_id, user_name, is_correct FROM chat_answers WHERE round_id = $roundId ORDER BY answered_at ASC")
+    .all({ $roundId: roundId }) as { user_id: number, user_name: string, is_correct: number }[];
+  return rows.map(row => ({ userId: row.user_id, userName: row.user_name, isCorrect: row.is_correct === 1 }));
+}
+
+// A point per correct answer in the chat, across all its topics
+export function getChatLeaderboard(chatId: number, limit: number = 10) {
+  const rows = db.query(`
+    SELECT a.user_id,
+      (SELECT a2.user_name FROM chat_answers a2 WHERE a2.user_id = a.user_id ORDER BY a2.answered_at DESC LIMIT 1) as user_name,
+      SUM(a.is_correct) as score,
+      COUNT(*) as answered
+    FROM chat_answers a
+    JOIN chat_rounds r ON r.id = a.round_id
+    WHERE r.chat_id = $chatId
+    GROUP BY a.user_id
+    ORDER BY score DESC, answered ASC
+    LIMIT $limit
+  `).all({ $chatId: chatId, $limit: limit }) as { user_id: number, user_name: string, score: number, answered: number }[];
+  return rows.map(row => ({ userId: row.user_id, userName: row.user_name, score: row.score, answered: row.answered }));
+}
+
+export interface TopicStats {
+  studyKey: string;
+  totalQuestions: number;
+  seen: number;
+  mastered: number;
+  struggling: number;
+  firstTryAttempts: number;
+  firstTryCorrect: number;
+  streak: number; // correct first tries in a row, most recent first
+  weeklyAccuracy: (number | null)[]; // oldest week first, null if no answers that week
+}
+
+export function getUserStats(userId: number, weeks: number = 4): TopicStats[] {
+  const now = Date.now();
+  const weekMs = 7 * 24 * 60 * 60 * 1000;
+  const stats = new Map<string, TopicStats>();
+
+  const progress = db.query(`
+    SELECT q.study_key,
+      COUNT(*) as seen,
+      SUM(CASE WHEN up.interval_days >= $masteredDays THEN 1 ELSE 0 END) as mastered,
+      SUM(CASE WHEN up.ease < $strugglingEase OR (up.repetitions = 0 AND up.lapses > 0) THEN 1 ELSE 0 END) as struggling,
+      (SELECT COUNT(*) FROM questions q2 WHERE q2.study_key = q.study_key AND q2.deleted_at IS NULL) as total
+    FROM user_progress up
+    JOIN questions q ON q.id = up.question_id
+    WHERE up.user_id = $userId AND q.deleted_at IS NULL
+    GROUP BY q.study_key
+    ORDER BY q.study_key ASC
+  `).all({
+    $userId: userId,
+    $masteredDays: MASTERED_INTERVAL_DAYS,
+    $strugglingEase: STRUGGLING_EASE
+  }) as { study_key: string, seen: number, mastered: number, struggling: number, total: number }[];
+
+  for (const row of progress) {
+    stats.set(row.study_key, {
+      studyKey: row.study_key,
+      totalQuestions: row.total,
+      seen: row.seen,
+      mastered: row.mastered,
+      struggling: row.struggling,
+      firstTryAttempts: 0,
+      firstTryCorrect: 0,
+      streak: 0,
+      weeklyAccuracy: new Array(weeks).fill(null)
+    });
   }
-  return null;
+
+  // First try accuracy, bucketed by how many weeks ago the answer was given
+  const buckets = db.query(`
+    SELECT q.study_key,
+      CAST(($now - a.created_at) / $weekMs AS INTEGER) as weeks_ago,
+      COUNT(*) as attempts,
+      SUM(a.is_correct) as correct
+    FROM attempts a
+    JOIN questions q ON q.id = a.question_id
+    WHERE a.user_id = $userId AND a.is_first_try = 1
+    GROUP BY q.study_key, weeks_ago
+  `).all({ $userId: userId, $now: now, $weekMs: weekMs }) as { study_key: string, weeks_ago: number, attempts: number, correct: number }[];
+
+  for (const row of buckets) {
+    const topic = stats.get(row.study_key);
+    if (!topic) continue;
+    topic.firstTryAttempts += row.attempts;
+    topic.firstTryCorrect += row.correct;
+    if (row.weeks_ago < weeks) {
+      topic.weeklyAccuracy[weeks - 1 - row.weeks_ago] = row.correct / row.attempts;
+    }
+  }
+
+  // Streak: first tries since the last wrong one
+  const streaks = db.query(`
+    SELECT q.study_key, COUNT(*) as streak
+    FROM attempts a
+    JOIN questions q ON q.id = a.question_id
+    WHERE a.user_id = $userId AND a.is_first_try = 1 AND a.created_at > COALESCE((
+      SELECT MAX(a2.created_at)
+      FROM attempts a2
+      JOIN questions q2 ON q2.id = a2.question_id
+      WHERE a2.user_id = $userId AND a2.is_first_try = 1 AND a2.is_correct = 0 AND q2.study_key = q.study_key
+    ), 0)
+    GROUP BY q.study_key
+  `).all({ $userId: userId }) as { study_key: string, streak: number }[];
+
+  for (const row of streaks) {
+    const topic = stats.get(row.study_key);
+    if (topic) topic.streak = row.streak;
+  }
+
+  return [...stats.values()];
+}
+
+export type AuditAction =
+  | "user.trust"
+  | "user.untrust"
+  | "topic.create"
+  | "topic.update"
+  | "topic.rename"
+  | "topic.clean"
+  | "role.grant"
+  | "role.revoke"
+  | "question.edit"
+  | "question.delete"
+  | "question.restore"
+  | "question.purge"
+  | "topic.delete"
+  | "topic.restore"
+  | "topic.purge"
+  | "trash.expire"
+  | "questions.generate"
+  | "questions.import"
+  | "questions.regenerate";
+
+export function logAudit(actorId: number, action: AuditAction, studyKey: string | null, target: string | number | null, payload?: unknown) {
+  db.query(`
+    INSERT INTO audit_log (actor_id, action, study_key, target, payload)
+    VALUES ($actorId, $action, $studyKey, $target, $payload)
+  `).run({
+    $actorId: actorId,
+    $action: action,
+    $studyKey: studyKey,
+    $target: target === null ? null : String(target),
+    $payload: payload === undefined ? null : JSON.stringify(payload)
+  });
+}
+
+// Newest first. Without a study key returns entries for all topics and global actions.
+export function getAuditLog(studyKey: string | null, page: number, pageSize: number = 10) {
+  const offset = (page - 1) * pageSize;
+
+  const entries = db.query(`
+    SELECT a.*, (SELECT username FROM usernames WHERE user_id = a.actor_id LIMIT 1) as actor_username
+    FROM audit_log a
+    WHERE $studyKey IS NULL OR a.study_key = $studyKey
+    ORDER BY a.id DESC
+    LIMIT $limit OFFSET $offset
+  `).all({ $studyKey: studyKey, $limit: pageSize, $offset: offset }) as {
+    id: number,
+    actor_id: number,
+    actor_username: string | null,
+    action: AuditAction,
+    study_key: string | null,
+    target: string | null,
+    payload: string | null,
+    created_at: number
+  }[];
+
+  const total = (db.query("SELECT COUNT(*) as count FROM audit_log WHERE $studyKey IS NULL OR study_key = $studyKey")
+    .get({ $studyKey: studyKey }) as { count: number }).count;
+
+  return {
+    entries: entries.map(row => ({
+      id: row.id,
+      actorId: row.actor_id,
+      actorUsername: row.actor_username,
+      action: row.action,
+      studyKey: row.study_key,
+      target: row.target,
+      payload: row.payload ? JSON.parse(row.payload) : null,
+      createdAt: new Date(row.created_at * 1000)
+    })),
+    total,
+    totalPages: Math.max(1, Math.ceil(total / pageSize))
+  };
 }
@@ -0,0 +1,205 @@
+import { isQuestionType, toPlainAnswer, validateTypedQuestion, type TypedQuestion } from "./questionTypes";
+
+// Question decks as files: JSON to move topics between bot instances, CSV to keep them in spreadsheets.
+
+export type DeckFormat = "json" | "csv";
+
+export interface DeckQuestion extends TypedQuestion {
+    explanation?: string | null;
+    // Ratings are exported for reference only, on import they start from zero
+    // because they have to match the votes stored in this instance
+    thumbs_up?: number;
+    thumbs_down?: number;
+}
+
+export interface ParsedDeck {
+    questions: DeckQuestion[];
+    errors: string[];
+}
+
+export function detectDeckFormat(fileName: string | undefined, mimeType: string | undefined): DeckFormat | null {
+    const name = (fileName || "").toLowerCase();
+    if (name.endsWith(".json") || mimeType === "application/json") return "json";
+    if (name.endsWith(".csv") || mimeType === "text/csv") return "csv";
+    return null;
+}
+
+export function serializeDeck(studyKey: string, questions: DeckQuestion[], format: DeckFormat): string {
+    if (format === "json") {
+        // Single choice questions keep the original shape, so older bot versions can still import them
+        const items = questions.map(q => ({
+            ...(q.type !== "single" && { type: q.type }),
+            question: q.question,
+            ...(q.options.length > 0 && q.type !== "true_false" && { options: q.options }),
+            ...toPlainAnswer(q.type, q.correct_index, q.answer),
+            ...(q.explanation && { explanation: q.explanation }),
+            thumbs_up: q.thumbs_up,
+            thumbs_down: q.thumbs_down
+        }));
+        return JSON.stringify({ topic: studyKey, exported_at: new Date().toISOString(), questions: items }, null, 2);
+    }
+
+    const optionColumns = Math.max(2, ...questions.map(q => q.options.length));
+    // "answer" holds the JSON answer of multi, cloze and numeric questions
+    const header = ["question", "type", "correct_index", "answer", "explanation", "thumbs_up", "thumbs_down"];
+    for (let i = 1; i <= optionColumns; i++) header.push(`option_${i}`);
+
+    const rows = [header];
+    for (const q of questions) {
+        const options = Array.from({ length: optionColumns }, (_, i) => q.type === "true_false" ? "" : q.options[i] ?? "");
+        const answer = q.answer === null ? "" : JSON.stringify(toPlainAnswer(q.type, q.correct_index, q.answer));
+        const correctIndex = q.answer === null ? String(q.correct_index) : "";
+        rows.push([q.question, q.type, correctIndex, answer, q.explanation ?? "", String(q.thumbs_up ?? 0), String(q.thumbs_down ?? 0), ...options]);
+    }
+
+    // BOM so that Excel opens the file as UTF-8
+    return "\uFEFF" + rows.map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+export function parseDeck(content: string, format: DeckFormat): ParsedDeck {
+    content = content.replace(/^\uFEFF/, "");
+    return format === "json" ? parseJsonDeck(content) : parseCsvDeck(content);
+}
+
+// Used to skip questions that are already in the topic
+export function questionKey(text: string): string {
+    return text.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function parseJsonDeck(content: string): ParsedDeck {
+    let data: any;
+    try {
+        data = JSON.parse(content);
+    } catch (e) {
+        return { questions: [], errors: ["Файл не является корректным JSON."] };
+    }
+
+    // Both our own export ({ topic, questions }) and a bare array are accepted
+    const items = Array.isArray(data) ? data : data?.questions;
+    if (!Array.isArray(items)) {
+        return { questions: [], errors: ["В файле нет списка вопросов (ожидается массив или поле \"questions\")."] };
+    }
+
+    const result: ParsedDeck = { questions: [], errors: [] };
+    items.forEach((item: any, idx: number) => {
+        const checked = validateTypedQuestion(item);
+        if (typeof checked === "string") {
+            result.errors.push(`Вопрос #${idx + 1}: ${checked}`);
+        } else {
+            result.questions.push({ ...checked, explanation: cleanExplanation(item?.explanation) });
+        }
+    });
+    return result;
+}
+
+function parseCsvDeck(content: string): ParsedDeck {
+    const rows = parseCsv(content, detectDelimiter(content));
+    const header = rows.shift()?.map(cell => cell.trim().toLowerCase());
+    if (!header) return { questions: [], errors: ["Файл пуст."] };
+
+    const questionColumn = header.indexOf("question");
+    const correctColumn = header.indexOf("correct_index");
+    // Both are optional, files without them are single choice decks
+    const typeColumn = header.indexOf("type");
+    const answerColumn = header.indexOf("answer");
+    const explanationColumn = header.indexOf("explanation");
+    const optionColumns = header
+        .map((name, idx) => name.startsWith("option") ? idx : -1)
+        .filter(idx => idx !== -1);
+
+    if (questionColumn === -1 || correctColumn === -1 || optionColumns.length === 0) {
+        return { questions: [], errors: ["Нужны столбцы question, correct_index и option_1, option_2, ..."] };
+    }
+
+    const result: ParsedDeck = { questions: [], errors: [] };
+    rows.forEach((row, idx) => {
+        if (row.every(cell => cell.trim() === "")) return;
+
+        const type = typeColumn === -1 ? "" : (row[typeColumn] ?? "").trim();
+        let answer: Record<string, unknown> = {};
+        if (isQuestionType(type) && type !== "single" && type !== "true_false") {
+            try {
+                answer = JSON.parse(row[answerColumn] ?? "");
+            } catch (e) {
+                result.errors.push(`Строка ${idx + 2}: в столбце answer должен быть JSON`);
+                return;
+            }
+        }
+
+        // Spreadsheets leave empty cells for questions with fewer options
+        const options = optionColumns.map(col => row[col] ?? "").filter(option => option.trim() !== "");
+        const correct = (row[correctColumn] ?? "").trim();
+        const checked = validateTypedQuestion({
+            ...answer,
+            type: type || "single",
+            question: row[questionColumn],
+            options,
+            correct_index: correct === "" ? NaN : Number(correct)
+        });
+        if (typeof checked === "string") {
+            result.errors.push(`Строка ${idx + 2}: ${checked}`);
+        } else {
+            const explanation = explanationColumn === -1 ? null : cleanExplanation(row[explanationColumn]);
+            result.questions.push({ ...checked, explanation });
+        }
+    });
+    return result;
+}
+
+// Explanations are optional, anything but a non-empty string is treated as missing
+function cleanExplanation(value: unknown): string | null {
+    return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function csvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Russian Excel saves CSV with semicolons, Google Sheets with commas
+function detectDelimiter(content: string): string {
+    const firstLine = content.split(/\r?\n/, 1)[0] ?? "";
+    const counts = [",", ";", "\t"].map(d => [d, firstLine.split(d).length] as const);
+    counts.sort((a, b) => b[1] - a[1]);
+    return counts[0]![0];
+}
+
+// RFC 4180: quoted fields may contain delimiters, doubled quotes and line breaks
+function parseCsv(content: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && content[i + 1] === "\n") i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== "" || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+}
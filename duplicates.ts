@@ -0,0 +1,165 @@
+import OpenAI from "openai";
+import * as db from "./db";
+import { correctAnswerText, type QuestionAnswer, type QuestionType } from "./questionTypes";
+
+// Duplicate detection for generated questions against the questions already in the topic.
+// Text similarity always runs; embeddings are used on top when EMBEDDINGS_MODEL is set.
+// A question is compared together with its correct answer, so "2 + 2 = ?" and "2 + 3 = ?" stay apart.
+
+const TEXT_THRESHOLD = parseFloat(process.env.DUPLICATE_TEXT_THRESHOLD || "0.85");
+const EMBEDDING_THRESHOLD = parseFloat(process.env.DUPLICATE_EMBEDDING_THRESHOLD || "0.92");
+const EMBEDDINGS_MODEL = process.env.EMBEDDINGS_MODEL;
+const EMBEDDINGS_BATCH = 64;
+
+const embeddingsClient = EMBEDDINGS_MODEL
+    ? new OpenAI({
+        apiKey: process.env.EMBEDDINGS_API_KEY || "dummy",
+        baseURL: process.env.EMBEDDINGS_BASE_URL || "https://api.openai.com/v1"
+    })
+    : null;
+
+interface Candidate {
+    question: string;
+    type: QuestionType;
+    options: string[];
+    correct_index: number;
+    answer: QuestionAnswer;
+}
+
+export type DuplicateReason =
+    | "text"        // nearly the same wording as an existing question
+    | "meaning"     // embeddings say it asks the same thing
+    | "batch";      // repeats another question from the same submission
+
+export interface SkippedQuestion {
+    question: string;
+    reason: DuplicateReason;
+    duplicateOf: number | null;     // existing question id, null for "batch"
+}
+
+export async function filterDuplicates<T extends Candidate>(studyKey: string, candidates: T[]): Promise<{ fresh: T[], skipped: SkippedQuestion[] }> {
+    const existing = db.getTopicQuestions(studyKey).map(q => ({
+        id: q.id,
+        text: comparableText(q.question_text, correctAnswerText(q))
+    }));
+    const existingGrams = existing.map(q => trigrams(q.text));
+
+    const skipped: SkippedQuestion[] = [];
+    let fresh: { candidate: T, text: string, grams: Set<string> }[] = [];
+
+    for (const candidate of candidates) {
+        const text = comparableText(candidate.question, correctAnswerText(candidate));
+        const grams = trigrams(text);
+
+        const matchIdx = existingGrams.findIndex(other => diceSimilarity(grams, other) >= TEXT_THRESHOLD);
+        if (matchIdx !== -1) {
+            skipped.push({ question: candidate.question, reason: "text", duplicateOf: existing[matchIdx]!.id });
+            continue;
+        }
+        if (fresh.some(other => diceSimilarity(grams, other.grams) >= TEXT_THRESHOLD)) {
+            skipped.push({ question: candidate.question, reason: "batch", duplicateOf: null });
+            continue;
+        }
+        fresh.push({ candidate, text, grams });
+    }
+
+    if (embeddingsClient && EMBEDDINGS_MODEL && fresh.length > 0) {
+        try {
+            fresh = await filterByEmbeddings(existing, fresh, skipped);
+        } catch (e) {
+            // Embeddings are an extra check, the text comparison above is still applied
+            console.error("Embedding duplicate check failed:", e);
+        }
+    }
+
+    return { fresh: fresh.map(f => f.candidate), skipped };
+}
+
+async function filterByEmbeddings<F extends { candidate: Candidate, text: string }>(
+    existing: { id: number, text: string }[],
+    fresh: F[],
+    skipped: SkippedQuestion[]
+): Promise<F[]> {
+    const model = EMBEDDINGS_MODEL!;
+
+    // Existing questions are embedded once and cached in the database
+    const cached = db.getQuestionEmbeddings(existing.map(q => q.id), model);
+    const missing = existing.filter(q => !cached.has(q.id));
+    const missingVectors = await embed(missing.map(q => q.text));
+    missing.forEach((q, idx) => {
+        cached.set(q.id, missingVectors[idx]!);
+        db.saveQuestionEmbedding(q.id, model, missingVectors[idx]!);
+    });
+
+    const freshVectors = await embed(fresh.map(f => f.text));
+    const kept: F[] = [];
+    const keptVectors: number[][] = [];
+
+    fresh.forEach((item, idx) => {
+        const vector = freshVectors[idx]!;
+        const match = existing.find(q => cosineSimilarity(vector, cached.get(q.id)!) >= EMBEDDING_THRESHOLD);
+        if (match) {
+            skipped.push({ question: item.candidate.question, reason: "meaning", duplicateOf: match.id });
+        } else if (keptVectors.some(other => cosineSimilarity(vector, other) >= EMBEDDING_THRESHOLD)) {
+            skipped.push({ question: item.candidate.question, reason: "batch", duplicateOf: null });
+        } else {
+            kept.push(item);
+            keptVectors.push(vector);
+        }
+    });
+    return kept;
+}
+
+async function embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDINGS_BATCH) {
+        const response = await embeddingsClient!.embeddings.create({
+            model: EMBEDDINGS_MODEL!,
+            input: texts.slice(i, i + EMBEDDINGS_BATCH)
+        });
+        // The API may return items out of order
+        const batch = [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+        vectors.push(...batch);
+    }
+    return vectors;
+}
+
+function comparableText(question: string, correctAnswer: string): string {
+    return normalizeText(`${question} ${correctAnswer}`);
+}
+
+// Case, punctuation, LaTeX delimiters and spacing don't make a question different
+function normalizeText(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/ё/g, "е")
+        .replace(/[$\\{}]/g, " ")
+        .replace(/[^\p{L}\p{N}+\-*/=<>^_]+/gu, " ")
+        .replace(/\s*([+\-*/=<>^_])\s*/g, "$1")
+        .trim()
+        .replace(/\s+/g, " ");
+}
+
+function trigrams(text: string): Set<string> {
+    const padded = ` ${text} `;
+    const result = new Set<string>();
+    for (let i = 0; i < padded.length - 2; i++) result.add(padded.slice(i, i + 3));
+    return result;
+}
+
+function diceSimilarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 && b.size === 0) return 1;
+    let common = 0;
+    for (const gram of a) if (b.has(gram)) common++;
+    return (2 * common) / (a.size + b.size);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i]! * b[i]!;
+        normA += a[i]! * a[i]!;
+        normB += b[i]! * b[i]!;
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,183 @@
+import { extractText, getDocumentProxy } from "unpdf";
+
+// Text extraction for uploaded notes. PDF keeps its page numbers so that generated
+// questions can be traced back to pages, the other formats are one continuous text.
+
+export type SourceKind = "pdf" | "docx" | "markdown" | "text" | "tex";
+
+export interface SourcePage {
+    page: number | null;
+    text: string;
+}
+
+// A part of the file that is sent to the model in one request
+export interface SourceSection {
+    fromPage: number | null;
+    toPage: number | null;
+    text: string;
+}
+
+const extensions: Record<string, SourceKind> = {
+    ".pdf": "pdf",
+    ".docx": "docx",
+    ".md": "markdown",
+    ".markdown": "markdown",
+    ".txt": "text",
+    ".tex": "tex"
+};
+
+export function detectSourceKind(fileName: string | undefined, mimeType: string | undefined): SourceKind | null {
+    const name = (fileName || "").toLowerCase();
+    for (const [extension, kind] of Object.entries(extensions)) {
+        if (name.endsWith(extension)) return kind;
+    }
+
+    if (mimeType === "application/pdf") return "pdf";
+    if (mimeType === "application/vnd.openxmlformats-officedocument.wordprocessingml.document") return "docx";
+    if (mimeType === "text/markdown") return "markdown";
+    if (mimeType === "text/plain") return "text";
+    return null;
+}
+
+export async function extractSource(data: Uint8Array, kind: SourceKind): Promise<SourcePage[]> {
+    if (kind === "pdf") {
+        const pdf = await getDocumentProxy(data);
+        const { text } = await extractText(pdf, { mergePages: false });
+        return text.map((pageText, idx) => ({ page: idx + 1, text: pageText.trim() }));
+    }
+
+    if (kind === "docx") {
+        const xml = readZipEntry(data, "word/document.xml");
+        if (!xml) throw new Error("word/document.xml not found, not a DOCX file");
+        return [{ page: null, text: docxToText(new TextDecoder("utf-8").decode(xml)) }];
+    }
+
+    const text = new TextDecoder("utf-8").decode(data).replace(/^\uFEFF/, "");
+    return [{ page: null, text: kind === "tex" ? stripTexPreamble(text) : text.trim() }];
+}
+
+// Whole pages are kept together so every section has an exact page range,
+// continuous text is split with splitText.
+export function splitIntoSections(pages: SourcePage[], maxChars: number): SourceSection[] {
+    const sections: SourceSection[] = [];
+    let current: SourceSection | null = null;
+
+    for (const page of pages) {
+        if (!page.text) continue;
+
+        if (page.page === null) {
+            for (const text of splitText(page.text, maxChars)) {
+                sections.push({ fromPage: null, toPage: null, text });
+            }
+            continue;
+        }
+
+        if (current && current.text.length + page.text.length + 2 <= maxChars) {
+            current.text += "\n\n" + page.text;
+            current.toPage = page.page;
+        } else {
+            current = { fromPage: page.page, toPage: page.page, text: page.text };
+            sections.push(current);
+        }
+    }
+    return sections;
+}
+
+// Splits long text for the model, preferring section boundaries (Markdown and LaTeX headings),
+// then paragraphs, then sentences
+export function splitText(text: string, maxChars: number): string[] {
+    const chunks: string[] = [];
+    let current = "";
+    const add = (piece: string) => {
+        if (!piece.trim()) return;
+        if (current && current.length + piece.length + 2 > maxChars) {
+            chunks.push(current);
+            current = "";
+        }
+        current = current ? current + "\n\n" + piece : piece;
+    };
+
+    for (const section of text.split(/\n(?=#{1,6}\s|\\(?:chapter|section|subsection)\*?\{)/)) {
+        if (section.length <= maxChars) {
+            add(section.trim());
+            continue;
+        }
+        for (const paragraph of section.split(/\n\s*\n/)) {
+            if (paragraph.length <= maxChars) {
+                add(paragraph.trim());
+                continue;
+            }
+            for (const sentence of paragraph.split(/(?<=[.!?])\s+/)) {
+                for (let i = 0; i < sentence.length; i += maxChars) add(sentence.slice(i, i + maxChars));
+            }
+        }
+    }
+
+    if (current) chunks.push(current);
+    return chunks;
+}
+
+// Keeps the document body, the preamble is only macros and packages
+function stripTexPreamble(tex: string): string {
+    const begin = tex.indexOf("\\begin{document}");
+    const end = tex.lastIndexOf("\\end{document}");
+    const body = begin === -1 ? tex : tex.slice(begin + "\\begin{document}".length, end === -1 ? undefined : end);
+    // Drop comments, but not escaped \%
+    return body.replace(/(^|[^\\])%.*$/gm, "$1").trim();
+}
+
+function docxToText(xml: string): string {
+    return xml
+        .replace(/<w:tab\/>/g, "\t")
+        .replace(/<w:br[^>]*\/>/g, "\n")
+        .replace(/<\/w:p>/g, "\n")
+        .replace(/<[^>]+>/g, "")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, "\"")
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, "&")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+}
+
+// Reads one file from a zip archive using the central directory
+function readZipEntry(data: Uint8Array, entryName: string): Uint8Array | null {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    // End of central directory record, searched from the end because of the optional comment
+    let end = -1;
+    for (let i = data.length - 22; i >= Math.max(0, data.length - 65557); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) {
+            end = i;
+            break;
+        }
+    }
+    if (end === -1) return null;
+
+    const entries = view.getUint16(end + 10, true);
+    let position = view.getUint32(end + 16, true);
+    for (let i = 0; i < entries; i++) {
+        if (view.getUint32(position, true) !== 0x02014b50) return null;
+        const method = view.getUint16(position + 10, true);
+        const compressedSize = view.getUint32(position + 20, true);
+        const nameLength = view.getUint16(position + 28, true);
+        const extraLength = view.getUint16(position + 30, true);
+        const commentLength = view.getUint16(position + 32, true);
+        const localOffset = view.getUint32(position + 42, true);
+        const name = new TextDecoder().decode(data.subarray(position + 46, position + 46 + nameLength));
+
+        if (name === entryName) {
+            const localNameLength = view.getUint16(localOffset + 26, true);
+            const localExtraLength = view.getUint16(localOffset + 28, true);
+            const start = localOffset + 30 + localNameLength + localExtraLength;
+            const compressed = data.subarray(start, start + compressedSize);
+            if (method === 0) return compressed;
+            if (method === 8) return Bun.inflateSync(new Uint8Array(compressed));
+            throw new Error(`Unsupported zip compression method ${method}`);
+        }
+
+        position += 46 + nameLength + extraLength + commentLength;
+    }
+    return null;
+}
@@ -4,42 +4,52 @@ import path from 'path';
 
 export const IMAGE_STORAGE_ROOT = '/data/images';
 
+// "question" shows the options, "open" is the same question without them for the open answer mode,
+// "explanation" is the card behind the "Почему?" button
+export type ImageVariant = 'question' | 'open' | 'explanation';
+
+const IMAGE_VARIANTS: ImageVariant[] = ['question', 'open', 'explanation'];
+
 // Ensure storage directory exists
 if (!existsSync(IMAGE_STORAGE_ROOT)) {
     mkdirSync(IMAGE_STORAGE_ROOT, { recursive: true });
 }
 
-export async function saveQuestionImage(questionId: number, imageBuffer: Buffer): Promise<string> {
+export async function saveQuestionImage(questionId: number, imageBuffer: Buffer, variant: ImageVariant = 'question'): Promise<string> {
     const questionDir = path.join(IMAGE_STORAGE_ROOT, questionId.toString());
     
     if (!existsSync(questionDir)) {
         mkdirSync(questionDir, { recursive: true });
     }
     
-    const imagePath = path.join(questionDir, 'question.png');
+    const imagePath = path.join(questionDir, `${variant}.png`);
     await fs.writeFile(imagePath, imageBuffer);
     
     return imagePath;
 }
 
-export function getQuestionImagePath(questionId: number): string {
-    return path.join(IMAGE_STORAGE_ROOT, questionId.toString(), 'question.png');
+export function getQuestionImagePath(questionId: number, variant: ImageVariant = 'question'): string {
+    return path.join(IMAGE_STORAGE_ROOT, questionId.toString(), `${variant}.png`);
 }
 
-export function imageExists(questionId: number): boolean {
-    const imagePath = getQuestionImagePath(questionId);
+export function imageExists(questionId: number, variant: ImageVariant = 'question'): boolean {
+    const imagePath = getQuestionImagePath(questionId, variant);
     return existsSync(imagePath);
 }
 
-export async function deleteQuestionImage(questionId: number): Promise<void> {
-    const imagePath = getQuestionImagePath(questionId);
-    const questionDir = path.dirname(imagePath);
+// Without a variant every image of the question is deleted
+export async function deleteQuestionImage(questionId: number, variant?: ImageVariant): Promise<void> {
+    const questionDir = path.join(IMAGE_STORAGE_ROOT, questionId.toString());
     
     try {
-        if (existsSync(imagePath)) {
-            await fs.unlink(imagePath);
+        for (const name of variant ? [variant] : IMAGE_VARIANTS) {
+            const imagePath = getQuestionImagePath(questionId, name);
+            if (existsSync(imagePath)) {
+                await fs.unlink(imagePath);
+            }
         }
         // Remove directory if empty
+        if (!existsSync(questionDir)) return;
         const files = await fs.readdir(questionDir);
         if (files.length === 0) {
             await fs.rmdir(questionDir);
@@ -1,11 +1,18 @@
 import { Bot, InlineKeyboard, MediaUpload } from "gramio";
 import * as db from "./db";
+import * as auth from "./auth";
 import * as ai from "./ai";
 import * as imageStorage from "./imageStorage";
-import { renderQuestionToImage } from "./renderer";
+import * as deck from "./deck";
+import { buildApkg } from "./apkg";
+import * as extract from "./extract";
+import { filterDuplicates, type SkippedQuestion } from "./duplicates";
+import { renderExplanationToImage, renderQuestionToImage } from "./renderer";
+import { PARTIAL_RECALL_QUALITY, qualityFromAnswer } from "./scheduler";
+import * as questionTypes from "./questionTypes";
 
 const token = process.env.BOT_TOKEN;
-const adminId = parseInt(process.env.ADMIN_ID || "0");
+const newCardsPerDay = parseInt(process.env.NEW_CARDS_PER_DAY || "20");
 
 if (!token) {
     console.error("Error: BOT_TOKEN environment variable is not set.");
@@ -30,62 +37,109 @@ const bot = new Bot(token)
     })
 
     .command("add", (context) => {
-        if (context.from?.id !== adminId) return; // Double check admin
-        const args = context.text?.split(" ") || [];
-        const target = args[1];
+        if (!context.from || !auth.can(context.from.id, "manage_users")) return; // Double check admin
+        const target = context.text?.split(" ")[1];
         if (!target) return context.send("Использование: /add <uid|@username>");
 
-        let targetId: number | null = null;
-        if (target.startsWith("@")) {
-            targetId = db.getUserIdByUsername(target);
-        } else {
-            targetId = parseInt(target);
-        }
-
-        if (!targetId || isNaN(targetId)) {
+        const targetId = resolveUserArg(target);
+        if (!targetId) {
             return context.send("Неверный ID пользователя или неизвестное имя пользователя (пользователь должен сначала запустить бота).");
         }
 
         db.setTrusted(targetId, true);
-        return context.send(`Пользователь ${targetId} теперь доверенный. ✅`);
+        db.logAudit(context.from.id, "user.trust", null, targetId);
+        return context.send(`Пользователь ${targetId} теперь доверенный и может создавать темы. ✅\nДоступ к существующим темам выдаётся через /grant.`);
     })
 
     .command("remove", (context) => {
-        if (context.from?.id !== adminId) return;
-        const args = context.text?.split(" ") || [];
-        const target = args[1];
+        if (!context.from || !auth.can(context.from.id, "manage_users")) return;
+        const target = context.text?.split(" ")[1];
         if (!target) return context.send("Использование: /remove <uid|@username>");
 
-        let targetId: number | null = null;
-        if (target.startsWith("@")) {
-            targetId = db.getUserIdByUsername(target);
-        } else {
-            targetId = parseInt(target);
-        }
-
-        if (!targetId || isNaN(targetId)) {
+        const targetId = resolveUserArg(target);
+        if (!targetId) {
             return context.send("Неверный ID пользователя или неизвестное имя пользователя.");
         }
 
         db.setTrusted(targetId, false);
+        db.logAudit(context.from.id, "user.untrust", null, targetId);
         return context.send(`Пользователь ${targetId} больше не доверенный. ❌`);
     })
 
+    .command("grant", (context) => {
+        const userId = context.from?.id;
+        if (!userId) return;
+
+        const studyKey = db.getUserStudyKey(userId);
+        if (!studyKey || !db.getTopic(studyKey)) return context.send("Тема не выбрана. Используйте /study <тема>.");
+        if (!auth.can(userId, "manage_roles", studyKey)) {
+            return context.send("Выдавать роли может только владелец темы или администратор.");
+        }
+
+        const [target, role] = context.text?.split(" ").slice(1) || [];
+        if (!target || (role !== "owner" && role !== "editor" && role !== "viewer")) {
+            return context.send("Использование: /grant <uid|@username> <owner|editor|viewer>");
+        }
+
+        const targetId = resolveUserArg(target);
+        if (!targetId) {
+            return context.send("Неверный ID пользователя или неизвестное имя пользователя (пользователь должен сначала запустить бота).");
+        }
+
+        const previousRole = db.getTopicRole(studyKey, targetId);
+        db.setTopicRole(studyKey, targetId, role, userId);
+        db.logAudit(userId, "role.grant", studyKey, targetId, { role, previousRole });
+        return context.send(`✅ Пользователь ${target} получил роль ${topicRoleTitles[role]} в теме '${studyKey}'.`);
+    })
+
+    .command("revoke", (context) => {
+        const userId = context.from?.id;
+        if (!userId) return;
+
+        const studyKey = db.getUserStudyKey(userId);
+        if (!studyKey || !db.getTopic(studyKey)) return context.send("Тема не выбрана. Используйте /study <тема>.");
+        if (!auth.can(userId, "manage_roles", studyKey)) {
+            return context.send("Отзывать роли может только владелец темы или администратор.");
+        }
+
+        const target = context.text?.split(" ")[1];
+        if (!target) return context.send("Использование: /revoke <uid|@username>");
+
+        const targetId = resolveUserArg(target);
+        if (!targetId) {
+            return context.send("Неверный ID пользователя или неизвестное имя пользователя.");
+        }
+
+        // A topic should not be left without an owner by accident
+        const roles = db.getTopicRoles(studyKey);
+        const owners = roles.filter(r => r.role === "owner");
+        if (owners.length === 1 && owners[0]!.userId === targetId && !auth.isAdmin(userId)) {
+            return context.send("Нельзя отозвать роль у единственного владельца темы.");
+        }
+
+        const previousRole = db.getTopicRole(studyKey, targetId);
+        if (previousRole) db.logAudit(userId, "role.revoke", studyKey, targetId, { previousRole });
+
+        return context.send(db.removeTopicRole(studyKey, targetId)
+            ? `❌ Пользователь ${target} больше не имеет доступа к теме '${studyKey}'.`
+            : `У пользователя ${target} нет роли в теме '${studyKey}'.`);
+    })
+
     .command("start", (context) => {
         const userId = context.from?.id;
         if (!userId) return;
 
-        const keys = db.getAllStudyKeys();
+        const keys = db.getListedTopics(userId, auth.isAdmin(userId)).map(topic => topic.key);
         
         // Default to first key if available
         let selectedKey = db.getUserStudyKey(userId) ?? keys[0];
 
-        // Check for optional base64 argument
+        // Check for optional base64 argument, this is also how unlisted topics are shared
         const args = context.text?.split(" ") || [];
         if (args.length > 1) {
             try {
                 const decoded = Buffer.from(args[1], 'base64').toString();
-                if (keys.includes(decoded)) {
+                if (auth.can(userId, "study", decoded)) {
                     selectedKey = decoded;
                 }
             } catch (e) {
@@ -100,73 +154,180 @@ const bot = new Bot(token)
         const questionCount = selectedKey ? db.getQuestionCount(selectedKey) : 0;
 
         const keyboard = new InlineKeyboard();
+        if (selectedKey) {
+            keyboard
+                .text("🏆 Сегодня", "top:day")
+                .text("🏆 Неделя", "top:week")
+                .text("🏆 Всё время", "top:all")
+                .row();
+        }
         // Pagination could be needed if many keys, but simple list for now
         keys.forEach(key => {
             keyboard.text(key, `study_select:${key}`).row();
         });
 
-        const isTrusted = db.isTrusted(userId) || userId === adminId;
-        const trustedMsg = isTrusted ? "\n\n🔑 *Вы доверенный пользователь.*\n• Используйте /study <тема> для переключения или создания темы.\n• Отправляйте текст или заметки, чтобы добавить вопросы в текущую тему.\n• Управляйте вопросами через /view и /clean." : "";
+        const canEdit = auth.can(userId, "add_questions", selectedKey);
+        const canCreate = auth.can(userId, "create_topic");
+        let trustedMsg = "";
+        if (canEdit || canCreate) {
+            trustedMsg = "\n\n🔑 <b>Вы можете редактировать темы.</b>";
+            if (canCreate) trustedMsg += "\n• Используйте /study &lt;тема&gt; для переключения или создания темы.";
+            if (canEdit) trustedMsg += "\n• Отправляйте текст или заметки, чтобы добавить вопросы в текущую тему.\n• Управляйте вопросами через /view и /clean, темой через /topic, доступом через /grant и /revoke.";
+        }
 
         // Get leaderboard for current topic
         let leaderboardMsg = "";
         if (selectedKey) {
-          try {
-            const leaderboards = db.getLatestLeaderboards();
-            const currentLeaderboard = leaderboards.find(lb => lb.studyKey === selectedKey);
-
-            if (currentLeaderboard && Object.keys(currentLeaderboard.leaderboard).length > 0) {
-              const entries = Object.entries(currentLeaderboard.leaderboard)
-                .sort((a, b) => b[1] - a[1]) // Sort by count descending
-                .slice(0, 5); // Top 5 only
-
-              leaderboardMsg = "\n\n🏆 *Топ игроков:*\n";
-              entries.forEach(([username, count], index) => {
-                const medal = index === 0 ? "🥇" : index === 1 ? "🥈" : index === 2 ? "🥉" : "▫️";
-                // Russian pluralization for вопрос
-                const questionWord = count === 1 ? "вопрос" :
-                                   count >= 2 && count <= 4 ? "вопроса" :
-                                   "вопросов";
-                // Escape Markdown special characters in username
-                const escapedUsername = username.replace(/[\_\*\[\]\(\)\~\`\>\#\+\-\=\|\{\}\.\!]/g, "\\$&");
-                leaderboardMsg += `${medal} ${escapedUsername}: ${count} ${questionWord}\n`;
-              });
-            }
-          } catch (error) {
-            console.error("Error fetching leaderboard:", error);
-          }
-        }
-
-        const welcomeMsg = keys.length > 0
-            ? `Добро пожаловать! \nТекущая тема: *${selectedKey}* (${questionCount} вопросов).${leaderboardMsg}\n\nИспользуйте /ask чтобы начать тренировку, или выберите другую тему ниже:${trustedMsg}`
-            : `Добро пожаловать! Темы не найдены. \nЕсли вы админ, используйте /study <тема> и отправьте текст для создания вопросов.${trustedMsg}`;
-
-        return context.send(welcomeMsg, { reply_markup: keyboard, parse_mode: "Markdown" });
+            try {
+                leaderboardMsg = "\n\n" + formatLeaderboard(selectedKey, "week", userId);
+            } catch (error) {
+                console.error("Error fetching leaderboard:", error);
+            }
+        }
+
+        const description = selectedKey ? db.getTopic(selectedKey)?.description : null;
+        const descriptionMsg = description ? `\n<i>${escapeHtml(description)}</i>` : "";
+
+        const welcomeMsg = selectedKey
+            ? `Добро пожаловать! \nТекущая тема: <b>${escapeHtml(selectedKey)}</b> (${questionCount} вопросов).${descriptionMsg}${leaderboardMsg}\n\nИспользуйте /ask чтобы начать тренировку, /stats для статистики, /top для рейтинга, или выберите другую тему ниже:${trustedMsg}`
+            : `Добро пожаловать! Темы не найдены. \nЕсли вы админ, используйте /study &lt;тема&gt; и отправьте текст для создания вопросов.${trustedMsg}`;
+
+        return context.send(welcomeMsg, { reply_markup: keyboard, parse_mode: "HTML" });
+    })
+
+    .command("top", (context) => {
+        const userId = context.from?.id;
+        if (!userId) return;
+
+        if (isGroupChat(context.chat)) {
+            return context.send(formatChatLeaderboard(context.chat.id), { parse_mode: "HTML" });
+        }
+
+        const studyKey = db.getUserStudyKey(userId);
+        if (!studyKey) return context.send("Тема не выбрана. Используйте /study <тема>.");
+
+        const arg = context.text?.split(" ")[1];
+        const window = parseLeaderboardWindow(arg) ?? "week";
+
+        return context.send(formatLeaderboard(studyKey, window, userId), {
+            reply_markup: leaderboardKeyboard(window),
+            parse_mode: "HTML"
+        });
     })
     
-    .command("study", (context) => {
+    .command("study", async (context) => {
+        const userId = context.from?.id;
+        if (!userId) return;
+
+        if (isGroupChat(context.chat)) return setChatTopic(context, userId);
+
         const key = context.text?.split(" ").slice(1).join(" ");
         if (!key) {
             return context.send("Пожалуйста укажите тему. Использование: /study <тема>");
         }
-        db.setUserStudyKey(context.from?.id || 0, key);
-        return context.send(`Тема установлена: ${key}. Отправьте мне текст/заметки для генерации вопросов!`);
+
+        const topic = db.getTopic(key);
+        if (topic) {
+            if (!auth.can(userId, "study", key)) {
+                return context.send("Тема не найдена.");
+            }
+            db.setUserStudyKey(userId, key);
+            return context.send(`Тема установлена: ${key}. Отправьте мне текст/заметки для генерации вопросов!`);
+        }
+
+        // Only trusted users can create new topics, they become the owner
+        if (!auth.can(userId, "create_topic")) {
+            return context.send("Тема не найдена. Выберите существующую тему через /start.");
+        }
+
+        db.createTopic(key, userId);
+        db.logAudit(userId, "topic.create", key, null);
+        db.setUserStudyKey(userId, key);
+        return context.send(`Создана новая тема: ${key}. Отправьте мне текст/заметки для генерации вопросов!\nОписание и видимость темы можно настроить через /topic.`);
     })
 
-    .command("clean", (context) => {
+    .command("topic", (context) => {
         const userId = context.from?.id;
         if (!userId) return;
 
-        // AUTH CHECK FOR CLEANING - STRICTLY ADMIN ONLY
-        if (userId !== adminId) {
-            return context.send("Эта команда доступна только главному администратору.");
+        const studyKey = db.getUserStudyKey(userId);
+        const topic = studyKey ? db.getTopic(studyKey) : null;
+        if (!topic) return context.send("Тема не выбрана. Используйте /study <тема>.");
+
+        const args = context.text?.split(" ").slice(1) || [];
+        const action = args[0];
+
+        if (!action) {
+            const roles = db.getTopicRoles(topic.key);
+            const members = roles.length > 0
+                ? roles.map(r => `${r.username ? "@" + escapeHtml(r.username) : `<code>${r.userId}</code>`} (${topicRoleTitles[r.role]})`).join(", ")
+                : "—";
+            let text = `📚 <b>${escapeHtml(topic.key)}</b>\n`;
+            text += topic.description ? `${escapeHtml(topic.description)}\n\n` : "\n";
+            text += `• Вопросов: ${db.getQuestionCount(topic.key)}\n`;
+            text += `• Участники: ${members}\n`;
+            text += `• Видимость: ${topicVisibilityTitles[topic.visibility]}${topic.archived ? " (в архиве)" : ""}\n`;
+            text += `• Создана: ${topic.createdAt.toLocaleDateString("ru-RU")}\n`;
+            if (bot.info?.username) {
+                const link = `https://t.me/${bot.info.username}?start=${Buffer.from(topic.key).toString("base64url")}`;
+                text += `• Ссылка: ${escapeHtml(link)}\n`;
+            }
+            text += "\nНастройка: /topic desc &lt;текст&gt;, /topic visibility public|unlisted|private, /topic archive, /topic unarchive, /topic delete";
+            return context.send(text, { parse_mode: "HTML" });
+        }
+
+        if (!auth.can(userId, "manage_topic", topic.key)) {
+            return context.send("Настраивать тему может только её владелец или администратор.");
+        }
+
+        if (action === "desc") {
+            const description = args.slice(1).join(" ");
+            db.updateTopic(topic.key, { description: description || null });
+            db.logAudit(userId, "topic.update", topic.key, null, { description: description || null, previous: topic.description });
+            return context.send(description ? "✅ Описание обновлено." : "✅ Описание удалено.");
         }
 
+        if (action === "visibility") {
+            const visibility = args[1];
+            if (visibility !== "public" && visibility !== "unlisted" && visibility !== "private") {
+                return context.send("Использование: /topic visibility public|unlisted|private");
+            }
+            db.updateTopic(topic.key, { visibility });
+            db.logAudit(userId, "topic.update", topic.key, null, { visibility, previous: topic.visibility });
+            return context.send(`✅ Видимость темы: ${topicVisibilityTitles[visibility]}.`);
+        }
+
+        if (action === "archive" || action === "unarchive") {
+            db.updateTopic(topic.key, { archived: action === "archive" });
+            db.logAudit(userId, "topic.update", topic.key, null, { archived: action === "archive" });
+            return context.send(action === "archive"
+                ? "🗄️ Тема перенесена в архив и скрыта из списка."
+                : "✅ Тема возвращена из архива.");
+        }
+
+        if (action === "delete") {
+            db.deleteTopic(topic.key, userId);
+            db.logAudit(userId, "topic.delete", topic.key, null);
+            return context.send(`🗑️ Тема '${topic.key}' перемещена в корзину. Восстановить её можно через /trash topics.`);
+        }
+
+        return context.send("Неизвестное действие. Использование: /topic [desc|visibility|archive|unarchive|delete]");
+    })
+
+    .command("clean", (context) => {
+        const userId = context.from?.id;
+        if (!userId) return;
+
         const studyKey = db.getUserStudyKey(userId);
         if (!studyKey) {
             return context.send("Вы еще не выбрали тему. Используйте /study <тема> сначала.");
         }
 
+        // AUTH CHECK FOR CLEANING - TOPIC OWNER OR ADMIN ONLY
+        if (!auth.can(userId, "manage_topic", studyKey)) {
+            return context.send("Эта команда доступна только владельцу темы или главному администратору.");
+        }
+
         const keyboard = new InlineKeyboard()
             .text("Да, удалить все", `clean:${studyKey}:confirm`)
             .text("Отмена", `clean:${studyKey}:cancel`);
@@ -178,10 +339,6 @@ const bot = new Bot(token)
         const userId = context.from?.id;
         if (!userId) return;
 
-        if (userId !== adminId) {
-            return context.send("Эта команда доступна только главному администратору.");
-        }
-
         const newName = context.text?.split(" ").slice(1).join(" ");
         if (!newName) {
             return context.send("Использование: /rename <новое_название>");
@@ -192,11 +349,22 @@ const bot = new Bot(token)
             return context.send("Сначала выберите тему, которую хотите переименовать, через /study.");
         }
 
+        if (!auth.can(userId, "manage_topic", currentKey)) {
+            return context.send("Эта команда доступна только владельцу темы или главному администратору.");
+        }
+
         if (currentKey === newName) {
             return context.send("Новое название совпадает с текущим.");
         }
 
+        if (db.getTopic(newName)) {
+            return context.send(`Тема '${newName}' уже существует.`);
+        }
+
         db.renameStudyKey(currentKey, newName);
+        // Logged under both names, the log itself is never rewritten on rename
+        db.logAudit(userId, "topic.rename", currentKey, newName, { from: currentKey, to: newName });
+        db.logAudit(userId, "topic.rename", newName, currentKey, { from: currentKey, to: newName });
         return context.send(`✅ Тема '${currentKey}' успешно переименована в '${newName}'.`);
     })
 
@@ -204,23 +372,234 @@ const bot = new Bot(token)
         const userId = context.from?.id;
         if (!userId) return;
 
+        const studyKey = db.getUserStudyKey(userId);
+        if (!studyKey) return context.send("Тема не выбрана. Используйте /study <тема>.");
+
         // AUTH CHECK
-        const isTrusted = db.isTrusted(userId) || userId === adminId;
-        if (!isTrusted) return context.send("У вас нет прав просматривать список вопросов.");
+        if (!auth.can(userId, "view_questions", studyKey)) return context.send("У вас нет прав просматривать список вопросов.");
+
+        await sendQuestionsList(context, studyKey, 1);
+    })
+
+    .command("export", async (context) => {
+        const userId = context.from?.id;
+        if (!userId) return;
+
+        const studyKey = db.getUserStudyKey(userId);
+        if (!studyKey) return context.send("Тема не выбрана. Используйте /study <тема>.");
+        if (!auth.can(userId, "view_questions", studyKey)) return context.send("У вас нет прав выгружать вопросы этой темы.");
+
+        const format = context.text?.split(" ")[1]?.toLowerCase() || "json";
+        if (format !== "json" && format !== "csv") return context.send("Использование: /export [json|csv]");
+
+        const questions = db.getTopicQuestions(studyKey).map(q => ({
+            question: q.question_text,
+            type: q.type,
+            options: q.options,
+            correct_index: q.correct_index,
+            answer: q.answer,
+            explanation: q.explanation,
+            thumbs_up: q.thumbs_up,
+            thumbs_down: q.thumbs_down
+        }));
+        if (questions.length === 0) return context.send(`В теме '${studyKey}' пока нет вопросов.`);
+
+        const content = deck.serializeDeck(studyKey, questions, format);
+        const fileName = `${studyKey.replace(/[^\p{L}\p{N}_-]+/gu, "_")}.${format}`;
+        return context.sendDocument(MediaUpload.buffer(Buffer.from(content, "utf-8"), fileName), {
+            caption: `📤 Тема '${studyKey}': ${questions.length} вопросов. Этот файл можно загрузить обратно в бота.`
+        });
+    })
+
+    .command("anki", async (context) => {
+        const userId = context.from?.id;
+        if (!userId) return;
 
         const studyKey = db.getUserStudyKey(userId);
         if (!studyKey) return context.send("Тема не выбрана. Используйте /study <тема>.");
+        if (!auth.can(userId, "view_questions", studyKey)) return context.send("У вас нет прав выгружать вопросы этой темы.");
 
-        await sendQuestionsList(context, studyKey, 1);
+        const questions = db.getTopicQuestions(studyKey);
+        if (questions.length === 0) return context.send(`В теме '${studyKey}' пока нет вопросов.`);
+
+        // /anki images also packs the pre-rendered PNGs, those are shown instead of the text on the front
+        const includeImages = context.text?.split(" ")[1] === "images";
+        try {
+            const apkg = await buildApkg(studyKey, questions, { includeImages });
+            if (apkg.length > MAX_UPLOAD_BYTES) {
+                return context.send("Колода получилась больше 50 МБ. Попробуйте /anki без картинок.");
+            }
+
+            const fileName = `${studyKey.replace(/[^\p{L}\p{N}_-]+/gu, "_")}.apkg`;
+            return context.sendDocument(MediaUpload.buffer(Buffer.from(apkg), fileName), {
+                caption: `🗂 Колода Anki '${studyKey}': ${questions.length} карточек. Откройте файл в Anki (Файл → Импорт).`
+            });
+        } catch (e) {
+            console.error("Failed to build apkg:", e);
+            return context.send("Ошибка при создании колоды Anki.");
+        }
+    })
+
+    .command("trash", async (context) => {
+        const userId = context.from?.id;
+        if (!userId) return;
+
+        if (context.text?.split(" ")[1] === "topics") {
+            return sendTopicsTrash(context, userId);
+        }
+
+        const studyKey = db.getUserStudyKey(userId);
+        if (!studyKey) return context.send("Тема не выбрана. Используйте /study <тема>.");
+        if (!auth.can(userId, "delete_questions", studyKey)) {
+            return context.send("У вас нет доступа к корзине этой темы.");
+        }
+
+        await sendQuestionsTrash(context, studyKey, 1);
+    })
+
+    .command("audit", async (context) => {
+        const userId = context.from?.id;
+        if (!userId) return;
+
+        // Admins see everything by default, topic owners their current topic
+        const arg = context.text?.split(" ").slice(1).join(" ");
+        const studyKey = arg || (auth.isAdmin(userId) ? null : db.getUserStudyKey(userId));
+        if (studyKey === null ? !auth.isAdmin(userId) : !auth.can(userId, "view_audit", studyKey)) {
+            return context.send("Журнал действий доступен владельцам темы и администраторам.");
+        }
+
+        await sendAuditLog(context, studyKey, 1);
+    })
+
+    .command("regenerate", async (context) => {
+        const userId = context.from?.id;
+        if (!userId || !auth.isAdmin(userId)) return;
+
+        const sourceId = parseInt(context.text?.split(" ")[1] ?? "");
+        if (isNaN(sourceId)) return context.send("Использование: /regenerate <номер источника>\nНомер источника показывает кнопка 📄 в /view.");
+
+        const source = db.getSource(sourceId);
+        if (!source) return context.send(`Источник #${sourceId} не найден.`);
+        if (db.getTopic(source.studyKey)?.deletedAt) return context.send(`Тема '${source.studyKey}' удалена, сначала восстановите ее.`);
+
+        const statusText = `Перегенерирую вопросы из источника #${sourceId} для темы '${source.studyKey}'... ⏳`;
+        const status = statusUpdater(await context.send(statusText), statusText);
+        await regenerateSource(status, userId, source);
     })
 
     .command("ask", (context) => {
-        const args = context.text?.split(" ") || [];
-        const questionId = args[1] ? parseInt(args[1]) : undefined;
-        return sendRandomQuestion(bot, context.chat.id, context.from?.id, questionId);
+        if (isGroupChat(context.chat)) return startGroupRound(context.chat.id);
+
+        // /ask [номер] [open|choice], the mode only applies to this run of questions
+        let questionId: number | undefined;
+        let mode: db.AnswerMode | undefined;
+        for (const arg of context.text?.split(" ").slice(1) ?? []) {
+            if (arg === "open" || arg === "choice") mode = arg;
+            else if (arg) questionId = parseInt(arg);
+        }
+        const userId = context.from?.id;
+        if (userId) {
+            if (mode) runModes.set(userId, mode);
+            else runModes.delete(userId);
+        }
+        return sendRandomQuestion(bot, context.chat.id, userId, questionId);
+    })
+
+    .command("mode", (context) => {
+        const userId = context.from?.id;
+        if (!userId) return;
+
+        const arg = context.text?.split(" ")[1];
+        if (arg === "open" || arg === "choice") {
+            db.setAnswerMode(userId, arg);
+            runModes.delete(userId);
+            return context.send(arg === "open"
+                ? "Режим ответа: своими словами. Варианты скрыты, ответ проверяет модель."
+                : "Режим ответа: выбор из вариантов.");
+        }
+
+        const current = db.getAnswerMode(userId) === "open" ? "своими словами (open)" : "выбор из вариантов (choice)";
+        return context.send(`Текущий режим ответа: ${current}.\n\n/mode choice — выбирать из вариантов\n/mode open — отвечать своими словами\n\nРежим можно задать и для одной тренировки: /ask open`);
+    })
+
+    .command("exam", async (context) => {
+        const userId = context.from?.id;
+        if (!userId) return;
+
+        // Typed answers and the report are personal, group chats have /ask rounds instead
+        if (isGroupChat(context.chat)) return context.send("Экзамен доступен только в личном чате с ботом.");
+
+        const args = context.text?.split(" ").slice(1).filter(Boolean) ?? [];
+        const running = db.getRunningExam(userId);
+
+        if (args[0] === "stop") {
+            if (!running) return context.send("Сейчас нет начатого экзамена.");
+            return finishExamSession(running.id);
+        }
+        if (running) {
+            const minutesLeft = Math.max(1, Math.ceil((running.endsAt - Date.now()) / 60000));
+            return context.send(`У вас уже идет экзамен: вопрос ${running.position + 1}/${running.questionCount}, осталось ${minutesLeft} мин.\n/exam stop — завершить досрочно.`);
+        }
+
+        const studyKey = db.getUserStudyKey(userId);
+        if (!studyKey) return context.send("Тема не выбрана. Используйте /study <тема>.");
+        // The topic may have been deleted or made private since it was chosen
+        if (!auth.can(userId, "study", studyKey)) return context.send(`Тема '${studyKey}' больше недоступна. Выберите другую через /study <тема>.`);
+
+        // /exam [N] [minutes], one minute per question by default
+        const count = args[0] ? parseInt(args[0]) : EXAM_DEFAULT_QUESTIONS;
+        const minutes = args[1] ? parseInt(args[1]) : count;
+        if (isNaN(count) || count < 1 || count > EXAM_MAX_QUESTIONS || isNaN(minutes) || minutes < 1 || minutes > EXAM_MAX_MINUTES) {
+            return context.send(`Использование: /exam [число вопросов] [минуты]\nНе больше ${EXAM_MAX_QUESTIONS} вопросов и ${EXAM_MAX_MINUTES} минут, по умолчанию ${EXAM_DEFAULT_QUESTIONS} вопросов по минуте на вопрос.`);
+        }
+
+        const questionIds = db.drawExamQuestions(studyKey, count);
+        if (questionIds.length === 0) return context.send(`Вопросов по теме '${studyKey}' не найдено.`);
+
+        const exam = db.createExam(userId, context.chat.id, studyKey, questionIds, minutes * 60 * 1000);
+        scheduleExamEnd(exam);
+        const fewer = questionIds.length < count ? ` (в теме только ${questionIds.length})` : "";
+        await context.send(`📝 Экзамен по теме '${studyKey}': ${questionIds.length} ${pluralizeRu(questionIds.length, "вопрос", "вопроса", "вопросов")}${fewer}, ${minutes} мин.\n\nНа каждый вопрос можно ответить один раз, правильные ответы будут в отчете в конце.\n/exam stop — завершить досрочно.`);
+        await advanceExam(exam.id);
+    })
+
+    .command("stats", (context) => {
+        const userId = context.from?.id;
+        if (!userId) return;
+
+        const topics = db.getUserStats(userId);
+        if (topics.length === 0) {
+            return context.send("Вы еще не отвечали на вопросы. Используйте /ask чтобы начать тренировку!");
+        }
+
+        let text = "📊 <b>Ваша статистика</b>\n\n";
+        for (const topic of topics) {
+            const accuracy = topic.firstTryAttempts > 0
+                ? `${Math.round((topic.firstTryCorrect / topic.firstTryAttempts) * 100)}% (${topic.firstTryCorrect}/${topic.firstTryAttempts})`
+                : "—";
+            const trend = topic.weeklyAccuracy
+                .map(value => value === null ? "—" : `${Math.round(value * 100)}%`)
+                .join(" → ");
+            const readiness = topic.totalQuestions > 0 ? Math.round((topic.mastered / topic.totalQuestions) * 100) : 0;
+
+            text += `📚 <b>${escapeHtml(topic.studyKey)}</b>\n`;
+            text += `• Изучено: ${topic.seen}/${topic.totalQuestions}\n`;
+            text += `• Точность с первой попытки: ${accuracy}\n`;
+            text += `• Усвоено: ${topic.mastered} · Проблемных: ${topic.struggling}\n`;
+            text += `• Серия верных ответов: ${topic.streak}\n`;
+            text += `• Динамика по неделям: ${trend}\n`;
+            text += `• Готовность: ${readiness}%\n\n`;
+        }
+
+        return context.send(text, { parse_mode: "HTML" });
     })
 
     .on("message", async (context) => {
+        // Group members talk to each other, nothing they send is study material or an answer
+        if (isGroupChat(context.chat)) return;
+
+        if (context.document) return handleDocumentUpload(context);
+        if (context.photo) return handlePhotoUpload(context, "image/jpeg"); // Telegram recompresses photos to JPEG
         if (!context.text) return;
         
         // Ignore commands (starting with /)
@@ -229,57 +608,51 @@ const bot = new Bot(token)
         const userId = context.from?.id;
         if (!userId) return;
 
-        // AUTH CHECK FOR ADDING QUESTIONS
-        const isTrusted = db.isTrusted(userId) || userId === adminId;
-        if (!isTrusted) {
-            return context.send("У вас нет прав добавлять новые вопросы. Вы можете только учить существующие темы.");
+        // Text typed for the question editor instead of new material
+        const edit = getQuestionEdit(userId);
+        if (edit?.awaiting) {
+            return handleQuestionEditInput(context, edit, context.text);
         }
 
-        const studyKey = db.getUserStudyKey(userId);
-        if (!studyKey) {
-            return context.send("Вы еще не выбрали тему. Используйте /study <тема> сначала.");
+        // Or the corrected text of a photo transcription
+        const transcription = getPendingTranscription(userId);
+        if (transcription?.awaitingCorrection) {
+            return handleTranscriptionCorrection(context, transcription, context.text);
         }
 
-        const msg = await context.send(`Анализирую текст для темы '${studyKey}'... ⏳`);
-        
-        try {
-            const questions = await ai.generateQuestions(context.text, studyKey);
-            
-            if (questions.length === 0) {
-                // GramIO send returns the message object, but edit might be on context or we need to use bot.api
-                // The issue is likely the type returned by context.send vs what we expect.
-                // In GramIO, we might need to use the API directly to edit if the returned object doesn't have helpers.
-                // Or simply send a new message. For now, let's just send a new message to be safe.
-                return context.send("Не удалось сгенерировать вопросы из этого текста. Попробуйте добавить больше деталей.");
-            }
-
-            for (const q of questions) {
-                const questionId = db.saveQuestion(studyKey, q.question, q.options, q.correct_index);
-                // Pre-generate and save image
-                try {
-                    const imageBuffer = await renderQuestionToImage(q.question, q.options);
-                    await imageStorage.saveQuestionImage(questionId, imageBuffer);
-                } catch (imgError) {
-                    console.error(`Failed to generate image for question ${questionId}:`, imgError);
-                    // We continue, so the question is saved, but image might be missing (fallback will handle it)
-                }
+        // Or the typed answer to the current exam question
+        const exam = db.getRunningExam(userId);
+        if (exam && exam.chatId === context.chat.id && context.text.length <= MAX_TYPED_ANSWER_CHARS) {
+            const item = db.getExamQuestions(exam.id)[exam.position];
+            if (item?.question && questionTypes.isTypedAnswer(item.question.type)) {
+                const isCorrect = questionTypes.checkTypedAnswer(item.question.type, item.question.answer, context.text);
+                return submitExamAnswer(exam, exam.position, context.text.trim(), isCorrect);
             }
+        }
 
-            // Remove the "Analyzing..." message
-            try {
-                await bot.api.deleteMessage({
-                    chat_id: msg.chat.id,
-                    message_id: msg.id
-                });
-            } catch (e) {
-                // Ignore if unable to delete
-            }
+        // Or the answer to a cloze, numeric or open mode question. Study material is longer than any answer,
+        // so a long text is still treated as new material, and so is text sent long after the question
+        // unless it replies to the question message.
+        const awaited = getAwaitedAnswer(userId);
+        const maxAnswerChars = awaited?.open ? MAX_OPEN_ANSWER_CHARS : MAX_TYPED_ANSWER_CHARS;
+        const answersQuestion = awaited !== null
+            && (context.replyMessage?.id === awaited.messageId || Date.now() - awaited.servedAt <= AWAITED_ANSWER_WINDOW_MS);
+        if (awaited && answersQuestion && awaited.chatId === context.chat.id && context.text.length <= maxAnswerChars) {
+            return handleTypedAnswer(context, userId, awaited, context.text);
+        }
 
-            return context.send(`✅ Сохранено ${questions.length} новых вопросов для темы '${studyKey}'. Используйте /ask для тренировки!`);
-        } catch (e) {
-            console.error(e);
-            return context.send("Ошибка генерации вопросов. Пожалуйста попробуйте снова.");
+        const studyKey = db.getUserStudyKey(userId);
+        if (!studyKey) {
+            return context.send("Вы еще не выбрали тему. Используйте /study <тема> сначала.");
         }
+
+        // AUTH CHECK FOR ADDING QUESTIONS
+        const denial = addQuestionsDenial(userId, studyKey);
+        if (denial) return context.send(denial);
+
+        const statusText = `Анализирую текст для темы '${studyKey}'... ⏳`;
+        const status = statusUpdater(await context.send(statusText), statusText);
+        return generateFromText(status, statusText, userId, studyKey, context.text, "text", { sourceLength: context.text.length });
     })
 
     .on("callback_query", async (context) => {
@@ -289,18 +662,24 @@ const bot = new Bot(token)
         // Clean confirmation handler
         if (data.startsWith("clean:")) {
             const parts = data.split(":");
-            const studyKey = parts[1];
+            const studyKey = parts[1] ?? "";
             const action = parts[2];
 
+            if (!context.from || !auth.can(context.from.id, "manage_topic", studyKey)) {
+                await context.answer({ text: "Недостаточно прав.", show_alert: true });
+                return;
+            }
+
             if (action === "confirm") {
-                db.clearQuestions(studyKey);
-                await context.answer({ text: "Вопросы удалены." });
+                const deleted = db.clearQuestions(studyKey, context.from.id);
+                db.logAudit(context.from.id, "topic.clean", studyKey, null, { deletedQuestions: deleted });
+                await context.answer({ text: "Вопросы перемещены в корзину." });
                 if (context.message) {
                     try {
                         await bot.api.editMessageText({
                             chat_id: context.message.chat.id,
                             message_id: context.message.id, // GramIO maps message_id to id
-                            text: `🗑️ Все вопросы по теме '${studyKey}' были удалены.`
+                            text: `🗑️ Все вопросы по теме '${studyKey}' перемещены в корзину. Восстановить их можно через /trash.`
                         });
                     } catch (e) {
                         console.error("Error editing message:", e);
@@ -325,9 +704,15 @@ const bot = new Bot(token)
 
         // Study selection handler
         if (data.startsWith("study_select:")) {
-            const key = data.split(":")[1];
+            const key = data.split(":").slice(1).join(":");
+            const userId = context.from?.id;
+            const topic = key ? db.getTopic(key) : null;
+            if (!userId || !topic || !auth.can(userId, "study", key)) {
+                await context.answer({ text: "Тема не найдена." });
+                return;
+            }
             if (key) {
-                db.setUserStudyKey(context.from?.id || 0, key);
+                db.setUserStudyKey(userId, key);
                 await context.answer({ text: `Выбрано: ${key}` });
                 
                 if (context.message) {
@@ -344,53 +729,738 @@ const bot = new Bot(token)
             return;
         }
 
-        // View pagination and delete handler
-        // page:<studyKey>:<page>
-        if (data.startsWith("page:")) {
+        // Leaderboard windows, top:<window> from /start sends a new message, top:<window>:edit switches /top in place
+        if (data.startsWith("top:")) {
             const parts = data.split(":");
-            const studyKey = parts[1];
-            const page = parseInt(parts[2]);
-            await sendQuestionsList(context, studyKey, page, true); // edit mode
+            const window = parseLeaderboardWindow(parts[1]);
+            const userId = context.from?.id;
+            if (!window || !userId) return;
+
+            const studyKey = db.getUserStudyKey(userId);
+            if (!studyKey) {
+                await context.answer({ text: "Тема не выбрана." });
+                return;
+            }
+
+            await context.answer();
+            const text = formatLeaderboard(studyKey, window, userId);
+            if (parts[2] === "edit" && context.message) {
+                try {
+                    await bot.api.editMessageText({
+                        chat_id: context.message.chat.id,
+                        message_id: context.message.id,
+                        text,
+                        reply_markup: leaderboardKeyboard(window),
+                        parse_mode: "HTML"
+                    });
+                } catch (e) {
+                    // Telegram rejects edits that change nothing
+                }
+            } else if (context.message) {
+                await bot.api.sendMessage({
+                    chat_id: context.message.chat.id,
+                    text,
+                    reply_markup: leaderboardKeyboard(window),
+                    parse_mode: "HTML"
+                });
+            }
             return;
         }
 
-        // del:<questionId>:<studyKey>:<page>
-        if (data.startsWith("del:")) {
+        // audit:<page>:<studyKey>, an empty study key means all topics
+        if (data.startsWith("audit:")) {
+            const userId = context.from?.id;
+            const parts = data.split(":");
+            const page = parseInt(parts[1] ?? "1");
+            // audit:<page>:<topic id>, no id for the log of all topics
+            const studyKey = parts[2] ? db.getTopicById(parseInt(parts[2]))?.key : null;
+            if (!userId || studyKey === undefined || (studyKey === null ? !auth.isAdmin(userId) : !auth.can(userId, "view_audit", studyKey))) {
+                await context.answer({ text: "Недостаточно прав.", show_alert: true });
+                return;
+            }
+            await context.answer();
+            await sendAuditLog(context, studyKey, page, true);
+            return;
+        }
+
+        // trash:<action>:<questionId>:<page>, actions: page, restore, purge (asks first), purge_ok
+        if (data.startsWith("trash:")) {
             const userId = context.from?.id;
+            const parts = data.split(":");
+            const action = parts[1];
+            const qId = parseInt(parts[2] ?? "");
+            const page = parseInt(parts[3] ?? "1");
             if (!userId) return;
 
-            // AUTH CHECK FOR DELETING QUESTIONS
-            const isTrusted = db.isTrusted(userId) || userId === adminId;
-            if (!isTrusted) {
-                 await context.answer({ text: "Только администратор может удалять вопросы.", show_alert: true });
-                 return;
+            const studyKey = action === "page" ? db.getUserStudyKey(userId) : db.getQuestionById(qId, true)?.study_key;
+            if (!studyKey || !auth.can(userId, "delete_questions", studyKey)) {
+                await context.answer({ text: "Недостаточно прав.", show_alert: true });
+                return;
             }
 
-            const parts = data.split(":");
-            const qId = parseInt(parts[1]);
-            const studyKey = parts[2];
-            const page = parseInt(parts[3]);
-            
-            db.deleteQuestion(qId);
-            imageStorage.deleteQuestionImage(qId).catch(err => console.error("Failed to delete image:", err));
+            if (action === "restore") {
+                db.restoreQuestion(qId);
+                db.logAudit(userId, "question.restore", studyKey, qId);
+                await context.answer({ text: "Вопрос восстановлен." });
+            } else if (action === "purge" && context.message) {
+                await context.answer();
+                const keyboard = new InlineKeyboard()
+                    .text("Да, удалить навсегда", `trash:purge_ok:${qId}:${page}`)
+                    .text("Отмена", `trash:page:0:${page}`);
+                try {
+                    await bot.api.editMessageReplyMarkup({
+                        chat_id: context.message.chat.id,
+                        message_id: context.message.id,
+                        reply_markup: keyboard
+                    });
+                } catch (e) { console.error(e); }
+                return;
+            } else if (action === "purge_ok") {
+                const question = db.getQuestionById(qId, true);
+                db.purgeQuestion(qId);
+                imageStorage.deleteQuestionImage(qId).catch(err => console.error("Failed to delete image:", err));
+                db.logAudit(userId, "question.purge", studyKey, qId, question && {
+                    question: question.question_text,
+                    options: question.options,
+                    correctIndex: question.correct_index
+                });
+                await context.answer({ text: "Вопрос удален навсегда." });
+            } else {
+                await context.answer();
+            }
 
-            await context.answer({ text: "Вопрос удален." });
-            await sendQuestionsList(context, studyKey, page, true);
+            await sendQuestionsTrash(context, studyKey, page, true);
             return;
         }
 
-        // format: q:<question_id>:<selected_index>
-        if (data.startsWith("vote:")) {
-            const parts = data.split(":");
-            // vote:questionId:up/down
-            const questionId = parseInt(parts[1]);
-            const voteType = parts[2];
+        // ttrash:<action>:<topic id>, same as above for deleted topics
+        if (data.startsWith("ttrash:")) {
             const userId = context.from?.id;
+            const parts = data.split(":");
+            const action = parts[1];
+            if (!userId) return;
 
-            if (userId && !isNaN(questionId)) {
-                db.addVote(userId, questionId, voteType === "up");
-                const stats = db.getQuestionStats(questionId);
-                const totalVotes = stats.thumbs_up + stats.thumbs_down;
+            if (action === "page") {
+                await context.answer();
+                await sendTopicsTrash(context, userId, true);
+                return;
+            }
+
+            const topic = db.getTopicById(parseInt(parts[2] ?? ""));
+            if (!topic?.deletedAt || !auth.can(userId, "manage_topic", topic.key)) {
+                await context.answer({ text: "Тема не найдена в корзине.", show_alert: true });
+                return;
+            }
+            const studyKey = topic.key;
+
+            if (action === "restore") {
+                db.restoreTopic(studyKey);
+                db.logAudit(userId, "topic.restore", studyKey, null);
+                await context.answer({ text: "Тема восстановлена." });
+            } else if (action === "purge" && context.message) {
+                await context.answer();
+                const keyboard = new InlineKeyboard()
+                    .text("Да, удалить навсегда", `ttrash:purge_ok:${topic.id}`)
+                    .text("Отмена", "ttrash:page:");
+                try {
+                    await bot.api.editMessageReplyMarkup({
+                        chat_id: context.message.chat.id,
+                        message_id: context.message.id,
+                        reply_markup: keyboard
+                    });
+                } catch (e) { console.error(e); }
+                return;
+            } else if (action === "purge_ok") {
+                const questionIds = db.purgeTopic(studyKey);
+                for (const id of questionIds) {
+                    imageStorage.deleteQuestionImage(id).catch(err => console.error("Failed to delete image:", err));
+                }
+                db.logAudit(userId, "topic.purge", studyKey, null, { purgedQuestions: questionIds.length });
+                await context.answer({ text: "Тема удалена навсегда." });
+            }
+
+            await sendTopicsTrash(context, userId, true);
+            return;
+        }
+
+        // View pagination and delete handler
+        // page:<studyKey>:<page>
+        if (data.startsWith("page:")) {
+            const userId = context.from?.id;
+            if (!userId) return;
+
+            const parts = data.split(":");
+            const studyKey = parts[1];
+            const page = parseInt(parts[2]);
+            // The key comes from the button, so it is checked like /view does
+            if (!auth.can(userId, "view_questions", studyKey)) {
+                await context.answer({ text: "У вас нет доступа к вопросам этой темы.", show_alert: true });
+                return;
+            }
+            await sendQuestionsList(context, studyKey, page, true); // edit mode
+            return;
+        }
+
+        // del:<questionId>:<studyKey>:<page>
+        if (data.startsWith("del:")) {
+            const userId = context.from?.id;
+            if (!userId) return;
+
+            const parts = data.split(":");
+            const qId = parseInt(parts[1]);
+            const studyKey = parts[2];
+            const page = parseInt(parts[3]);
+
+            // AUTH CHECK FOR DELETING QUESTIONS, against the question's real topic rather than the button payload
+            const question = db.getQuestionById(qId);
+            if (!question || !auth.can(userId, "delete_questions", question.study_key)) {
+                 await context.answer({ text: "У вас нет прав удалять вопросы в этой теме.", show_alert: true });
+                 return;
+            }
+            
+            db.deleteQuestion(qId, userId);
+            db.logAudit(userId, "question.delete", question.study_key, qId, {
+                question: question.question_text,
+                options: question.options,
+                correctIndex: question.correct_index
+            });
+
+            await context.answer({ text: "Вопрос перемещен в корзину (/trash)." });
+            await sendQuestionsList(context, studyKey, page, true);
+            return;
+        }
+
+        // imp:ok or imp:cancel for the user's pending deck import
+        if (data.startsWith("imp:")) {
+            const userId = context.from?.id;
+            if (!userId) return;
+
+            const pending = getPendingImport(userId);
+            pendingImports.delete(userId);
+            if (!pending) {
+                await context.answer({ text: "Импорт уже завершен или устарел. Загрузите файл еще раз.", show_alert: true });
+                return;
+            }
+
+            if (data !== "imp:ok") {
+                await context.answer({ text: "Импорт отменен." });
+                await clearButtons(context.message);
+                return;
+            }
+
+            const topic = db.getTopic(pending.studyKey);
+            if (!auth.can(userId, "add_questions", pending.studyKey) || topic?.archived) {
+                await context.answer({ text: "Нельзя добавлять вопросы в эту тему.", show_alert: true });
+                return;
+            }
+
+            // Somebody could have added the same questions since the dry run
+            const { fresh, duplicates } = splitDuplicates(pending.studyKey, pending.questions);
+            const savedIds = db.importQuestions(pending.studyKey, fresh.map(q => ({
+                question: q.question,
+                options: q.options,
+                correctIndex: q.correct_index,
+                type: q.type,
+                answer: q.answer,
+                explanation: q.explanation
+            })));
+            db.logAudit(userId, "questions.import", pending.studyKey, null, {
+                fileName: pending.fileName,
+                imported: savedIds.length,
+                skippedDuplicates: pending.skippedDuplicates + duplicates,
+                skippedInvalid: pending.skippedInvalid,
+                firstId: savedIds[0] ?? null,
+                lastId: savedIds[savedIds.length - 1] ?? null
+            });
+
+            await context.answer({ text: "Готово! ✅" });
+            if (context.message) {
+                try {
+                    await bot.api.editMessageText({
+                        chat_id: context.message.chat.id,
+                        message_id: context.message.id,
+                        text: `✅ Импортировано ${savedIds.length} вопросов в тему '${pending.studyKey}'. Используйте /ask для тренировки!`
+                    });
+                } catch (e) { console.error(e); }
+            }
+            return;
+        }
+
+        // ocr:ok, ocr:edit or ocr:cancel for the user's pending photo transcription
+        if (data.startsWith("ocr:")) {
+            const userId = context.from?.id;
+            if (!userId) return;
+
+            const pending = getPendingTranscription(userId);
+            if (!pending) {
+                await context.answer({ text: "Распознанный текст устарел. Отправьте фото еще раз.", show_alert: true });
+                await clearButtons(context.message);
+                return;
+            }
+
+            if (data === "ocr:edit") {
+                pending.awaitingCorrection = true;
+                pending.updatedAt = Date.now();
+                await context.answer();
+                await context.send("Отправьте исправленный текст одним сообщением, он полностью заменит распознанный. Текст выше можно скопировать нажатием.");
+                return;
+            }
+
+            pendingTranscriptions.delete(userId);
+            await clearButtons(context.message);
+            if (data !== "ocr:ok") {
+                await context.answer({ text: "Отменено." });
+                return;
+            }
+
+            const denial = addQuestionsDenial(userId, pending.studyKey);
+            if (denial) {
+                await context.answer({ text: denial, show_alert: true });
+                return;
+            }
+
+            await context.answer();
+            const text = transcriptionText(pending);
+            const statusText = `Анализирую текст с фото для темы '${pending.studyKey}'... ⏳`;
+            const status = statusUpdater(await context.send(statusText), statusText);
+            await generateFromText(status, statusText, userId, pending.studyKey, text, "photo", {
+                source: "photo",
+                photos: pending.parts.length,
+                corrected: pending.corrected,
+                sourceLength: text.length
+            });
+            return;
+        }
+
+        // edit:<questionId>
+        if (data.startsWith("edit:")) {
+            const userId = context.from?.id;
+            if (!userId || !context.message) return;
+
+            const qId = parseInt(data.split(":")[1] ?? "");
+            const question = db.getQuestionById(qId);
+            if (!question || !auth.can(userId, "edit_questions", question.study_key)) {
+                await context.answer({ text: "У вас нет прав редактировать вопросы в этой теме.", show_alert: true });
+                return;
+            }
+            if (question.type !== "single") {
+                await context.answer({ text: "Редактор пока поддерживает только вопросы с одним правильным ответом.", show_alert: true });
+                return;
+            }
+
+            const edit: QuestionEdit = {
+                questionId: question.id,
+                studyKey: question.study_key,
+                questionText: question.question_text,
+                options: [...question.options],
+                correctIndex: question.correct_index,
+                awaiting: null,
+                chatId: context.message.chat.id,
+                updatedAt: Date.now()
+            };
+            questionEdits.set(userId, edit);
+
+            await context.answer();
+            await sendQuestionEditor(edit);
+            return;
+        }
+
+        // qe:<action>[:<optionIndex>], acts on the user's current edit session
+        if (data.startsWith("qe:")) {
+            const userId = context.from?.id;
+            if (!userId) return;
+
+            const edit = getQuestionEdit(userId);
+            if (!edit) {
+                await context.answer({ text: "Редактирование уже завершено. Откройте вопрос заново через /view.", show_alert: true });
+                return;
+            }
+
+            const parts = data.split(":");
+            const action = parts[1];
+            const index = parseInt(parts[2] ?? "");
+            edit.updatedAt = Date.now();
+
+            if (action === "text") {
+                edit.awaiting = { field: "question" };
+                await context.answer({ text: "Отправьте новый текст вопроса сообщением." });
+                return;
+            }
+
+            if (action === "opt" && edit.options[index] !== undefined) {
+                edit.awaiting = { field: "option", index };
+                await context.answer({ text: `Отправьте новый текст варианта ${String.fromCharCode(65 + index)} сообщением.` });
+                return;
+            }
+
+            if (action === "add") {
+                if (edit.options.length >= MAX_EDIT_OPTIONS) {
+                    await context.answer({ text: `Не больше ${MAX_EDIT_OPTIONS} вариантов.`, show_alert: true });
+                    return;
+                }
+                edit.awaiting = { field: "option", index: edit.options.length };
+                await context.answer({ text: "Отправьте текст нового варианта сообщением." });
+                return;
+            }
+
+            if (action === "correct" && edit.options[index] !== undefined) {
+                edit.correctIndex = index;
+                edit.preview = undefined;
+                await context.answer({ text: `Правильный ответ: ${String.fromCharCode(65 + index)}` });
+                await sendQuestionEditor(edit, context.message);
+                return;
+            }
+
+            if (action === "rm" && edit.options[index] !== undefined) {
+                if (edit.options.length <= 2) {
+                    await context.answer({ text: "У вопроса должно быть хотя бы 2 варианта.", show_alert: true });
+                    return;
+                }
+                if (index === edit.correctIndex) {
+                    await context.answer({ text: "Нельзя удалить правильный ответ. Сначала отметьте другой вариант.", show_alert: true });
+                    return;
+                }
+                edit.options.splice(index, 1);
+                if (index < edit.correctIndex) edit.correctIndex--;
+                edit.preview = undefined;
+                await context.answer({ text: "Вариант удален." });
+                await sendQuestionEditor(edit, context.message);
+                return;
+            }
+
+            if (action === "preview") {
+                await context.answer({ text: "Рисую предпросмотр... ⏳" });
+                try {
+                    edit.preview = await renderQuestionToImage(edit.questionText, edit.options);
+                } catch (e) {
+                    console.error("Failed to render preview:", e);
+                    await bot.api.sendMessage({ chat_id: edit.chatId, text: "Ошибка при рендеринге вопроса." });
+                    return;
+                }
+
+                const keyboard = new InlineKeyboard()
+                    .text("💾 Сохранить", "qe:save")
+                    .text("↩️ Изменить", "qe:back")
+                    .row()
+                    .text("✖️ Отмена", "qe:cancel");
+                await bot.api.sendPhoto({
+                    chat_id: edit.chatId,
+                    photo: MediaUpload.buffer(edit.preview, "question.png"),
+                    caption: `👁 Предпросмотр вопроса #${edit.questionId}
+Правильный ответ: ${String.fromCharCode(65 + edit.correctIndex)}`,
+                    reply_markup: keyboard
+                });
+                return;
+            }
+
+            if (action === "back") {
+                await context.answer();
+                await clearButtons(context.message);
+                await sendQuestionEditor(edit);
+                return;
+            }
+
+            if (action === "cancel") {
+                questionEdits.delete(userId);
+                await context.answer({ text: "Изменения отменены." });
+                await clearButtons(context.message);
+                return;
+            }
+
+            if (action === "save") {
+                // The preview has to match what gets saved, so any change after it asks for a new one
+                if (!edit.preview) {
+                    await context.answer({ text: "Вопрос изменился, посмотрите предпросмотр еще раз.", show_alert: true });
+                    return;
+                }
+
+                const question = db.getQuestionById(edit.questionId);
+                if (!question || !auth.can(userId, "edit_questions", question.study_key)) {
+                    questionEdits.delete(userId);
+                    await context.answer({ text: "Вопрос удален или у вас больше нет прав его редактировать.", show_alert: true });
+                    return;
+                }
+
+                db.updateQuestion(edit.questionId, edit.questionText, edit.options, edit.correctIndex);
+                // The open mode picture and the explanation card are rendered again when needed
+                await imageStorage.deleteQuestionImage(edit.questionId, "open");
+                await imageStorage.deleteQuestionImage(edit.questionId, "explanation");
+                try {
+                    await imageStorage.saveQuestionImage(edit.questionId, edit.preview);
+                } catch (e) {
+                    // sendRandomQuestion re-renders a missing image, a stale one has to go
+                    console.error(`Failed to save image for question ${edit.questionId}:`, e);
+                    await imageStorage.deleteQuestionImage(edit.questionId);
+                }
+                db.logAudit(userId, "question.edit", question.study_key, edit.questionId, {
+                    before: { question: question.question_text, options: question.options, correctIndex: question.correct_index },
+                    after: { question: edit.questionText, options: edit.options, correctIndex: edit.correctIndex }
+                });
+                questionEdits.delete(userId);
+
+                await context.answer({ text: "Сохранено! ✅" });
+                if (context.message) {
+                    try {
+                        await bot.api.editMessageCaption({
+                            chat_id: context.message.chat.id,
+                            message_id: context.message.id,
+                            caption: `✅ Вопрос #${edit.questionId} сохранен.`,
+                            reply_markup: new InlineKeyboard()
+                        });
+                    } catch (e) { console.error(e); }
+                }
+                return;
+            }
+
+            await context.answer();
+            return;
+        }
+
+        // m:<question_id>:<option_index> toggles an option of a multi-select question
+        if (data.startsWith("m:")) {
+            const message = context.message;
+            const keyboard = message?.replyMarkup?.inlineKeyboard;
+            if (!message || !keyboard) return;
+
+            const newKeyboard = new InlineKeyboard();
+            for (const row of keyboard) {
+                newKeyboard.row();
+                for (const btn of row) {
+                    const text = btn.callbackData !== data
+                        ? btn.text
+                        : btn.text.startsWith("✅") ? btn.text.replace("✅", "⬜") : btn.text.replace("⬜", "✅");
+                    newKeyboard.text(text, btn.callbackData || "ignore");
+                }
+            }
+
+            await context.answer();
+            try {
+                await bot.api.editMessageReplyMarkup({ chat_id: message.chat.id, message_id: message.id, reply_markup: newKeyboard });
+            } catch (e) {
+                console.error("Failed to edit message", e);
+            }
+            return;
+        }
+
+        // ms:<question_id> submits the selected options
+        if (data.startsWith("ms:")) {
+            const message = context.message;
+            const userId = context.from?.id;
+            if (!message || !userId) return;
+
+            const questionId = parseInt(data.split(":")[1] ?? "");
+            const question = db.getQuestionById(questionId);
+            if (!question || question.type !== "multi") {
+                await context.answer({ text: "Вопрос не найден.", show_alert: true });
+                return;
+            }
+
+            const selected = (message.replyMarkup?.inlineKeyboard ?? [])
+                .flat()
+                .filter(btn => btn.text.startsWith("✅") && btn.callbackData?.startsWith(`m:${questionId}:`))
+                .map(btn => parseInt(btn.callbackData!.split(":")[2] ?? ""));
+            if (selected.length === 0) {
+                await context.answer({ text: "Сначала отметьте варианты." });
+                return;
+            }
+
+            const isCorrect = questionTypes.checkMultiAnswer(question.answer, selected);
+            const servedAt = message.createdAt ? message.createdAt * 1000 : null;
+            recordAnswer(userId, questionId, null, isCorrect, servedAt);
+
+            if (!isCorrect) {
+                await context.answer({ text: "Неверно! Попробуйте еще раз. ❌" });
+                return;
+            }
+
+            await context.answer({ text: "Правильно! 🎉" });
+            await showSolvedQuestion(message.chat.id, message.id, questionId, questionTypes.formatCorrectAnswer(question), "✅ Правильно!");
+            await sendRandomQuestion(bot, message.chat.id, userId);
+            return;
+        }
+
+        // reveal:<question_id> gives up on a typed answer or open mode question
+        if (data.startsWith("reveal:")) {
+            const message = context.message;
+            const userId = context.from?.id;
+            if (!message || !userId) return;
+
+            const questionId = parseInt(data.split(":")[1] ?? "");
+            const question = db.getQuestionById(questionId, true);
+            if (!question) {
+                await context.answer({ text: "Вопрос не найден.", show_alert: true });
+                return;
+            }
+
+            const awaited = awaitedAnswers.get(userId)?.questionId === questionId ? awaitedAnswers.get(userId) : undefined;
+            if (awaited) awaitedAnswers.delete(userId);
+            recordAnswer(userId, questionId, null, false, awaited?.servedAt ?? null);
+
+            // Options were hidden in open mode, so the option text is shown instead of its letter
+            const answerText = awaited?.open ? questionTypes.correctAnswerText(question) : questionTypes.formatCorrectAnswer(question);
+            await context.answer();
+            await showSolvedQuestion(message.chat.id, message.id, questionId, answerText, "🏳");
+            await sendRandomQuestion(bot, message.chat.id, userId);
+            return;
+        }
+
+        // ex:<exam_id>:<position>:<option index|submit|skip> answers an exam question
+        if (data.startsWith("ex:")) {
+            const message = context.message;
+            const [, examId, positionArg, choice] = data.split(":");
+            const position = parseInt(positionArg ?? "");
+            const exam = db.getExam(parseInt(examId ?? ""));
+            if (!message || !exam || exam.userId !== context.from?.id) {
+                await context.answer({ text: "Это не ваш экзамен." });
+                return;
+            }
+            if (exam.finishedAt !== null || exam.position !== position) {
+                await context.answer({ text: "На этот вопрос уже нельзя ответить." });
+                return;
+            }
+            const question = db.getExamQuestions(exam.id)[position]?.question;
+            if (!question) return;
+
+            let answer: string | null = null;
+            let isCorrect = false;
+            if (choice === "submit") {
+                // The options are toggled by the m: handler, like in /ask
+                const selected = (message.replyMarkup?.inlineKeyboard ?? [])
+                    .flat()
+                    .filter(btn => btn.text.startsWith("✅") && btn.callbackData?.startsWith("m:"))
+                    .map(btn => parseInt(btn.callbackData!.split(":")[2] ?? ""));
+                if (selected.length === 0) {
+                    await context.answer({ text: "Сначала отметьте варианты." });
+                    return;
+                }
+                answer = selected.sort((a, b) => a - b).map(idx => question.options[idx]).join("; ");
+                isCorrect = questionTypes.checkMultiAnswer(question.answer, selected);
+            } else if (choice !== "skip") {
+                const selectedIndex = parseInt(choice ?? "");
+                answer = question.options[selectedIndex] ?? null;
+                isCorrect = selectedIndex === question.correct_index;
+            }
+
+            await context.answer({ text: answer === null ? "Вопрос пропущен." : "Ответ принят." });
+            await submitExamAnswer(exam, position, answer, isCorrect);
+            return;
+        }
+
+        // src:<question_id> from /view sends the text the question was generated from
+        if (data.startsWith("src:")) {
+            const userId = context.from?.id;
+            if (!userId) return;
+
+            const questionId = parseInt(data.split(":")[1] ?? "");
+            const question = db.getQuestionById(questionId, true);
+            if (!question || !auth.can(userId, "view_questions", question.study_key)) {
+                await context.answer({ text: "Вопрос не найден или у вас нет прав его просматривать.", show_alert: true });
+                return;
+            }
+            const source = question.source_id === null ? null : db.getSource(question.source_id);
+            if (!source) {
+                await context.answer({ text: "У этого вопроса нет сохраненного источника.", show_alert: true });
+                return;
+            }
+
+            await context.answer();
+            await sendSource(context, source, questionId, auth.isAdmin(userId));
+            return;
+        }
+
+        // g:<round_id>:<selected_index> is a member's answer in a group round, one per member
+        if (data.startsWith("g:")) {
+            const userId = context.from?.id;
+            if (!userId) return;
+
+            const [, roundId, selectedArg] = data.split(":");
+            const round = db.getChatRound(parseInt(roundId ?? ""));
+            const question = round && db.getQuestionById(round.questionId, true);
+            if (!round || !question || round.closedAt !== null || Date.now() >= round.endsAt) {
+                await context.answer({ text: "Время на ответ вышло." });
+                return;
+            }
+
+            // Anything but one of the question's options is a tampered button
+            const selectedIndex = Number(selectedArg);
+            if (!Number.isInteger(selectedIndex) || selectedIndex < 0 || selectedIndex >= question.options.length) {
+                await context.answer();
+                return;
+            }
+            const name = context.from.username ? `@${context.from.username}` : context.from.firstName;
+            if (!db.recordChatAnswer(round.id, userId, name, selectedIndex, selectedIndex === question.correct_index)) {
+                await context.answer({ text: "Вы уже ответили на этот вопрос." });
+                return;
+            }
+            const secondsLeft = Math.max(1, Math.ceil((round.endsAt - Date.now()) / 1000));
+            await context.answer({ text: `Ответ принят! Результат через ${secondsLeft} сек.` });
+            return;
+        }
+
+        if (data === "gnext") {
+            await context.answer();
+            if (context.message) await startGroupRound(context.message.chat.id);
+            return;
+        }
+
+        // why:<question_id> sends the explanation card of a solved question
+        if (data.startsWith("why:")) {
+            const message = context.message;
+            if (!message) return;
+
+            const userId = context.from?.id;
+            if (!userId) return;
+
+            // The id comes from the button: deleted questions and topics the user can't study stay closed,
+            // also because a missing explanation costs a model request
+            const questionId = parseInt(data.split(":")[1] ?? "");
+            const question = db.getQuestionById(questionId);
+            if (!question || !auth.can(userId, "study", question.study_key)) {
+                await context.answer({ text: "Вопрос не найден.", show_alert: true });
+                return;
+            }
+
+            let imageSource: string | Buffer;
+            if (imageStorage.imageExists(questionId, "explanation")) {
+                await context.answer();
+                imageSource = imageStorage.getQuestionImagePath(questionId, "explanation");
+            } else {
+                await context.answer({ text: "Готовлю объяснение... ⏳" });
+                const explanation = await questionExplanation(question);
+                if (!explanation) {
+                    await context.send("Не удалось получить объяснение. Попробуйте позже.");
+                    return;
+                }
+                try {
+                    imageSource = await renderExplanationToImage(question.question_text, question.type, questionTypes.correctAnswerText(question), explanation);
+                    await imageStorage.saveQuestionImage(questionId, imageSource, "explanation");
+                } catch (e) {
+                    console.error("Failed to render explanation:", e);
+                    await context.send("Ошибка при рендеринге объяснения.");
+                    return;
+                }
+            }
+
+            await bot.api.sendPhoto({
+                chat_id: message.chat.id,
+                photo: typeof imageSource === "string" ? MediaUpload.path(imageSource) : MediaUpload.buffer(imageSource, "explanation.png"),
+                reply_parameters: { message_id: message.id }
+            });
+            return;
+        }
+
+        // format: q:<question_id>:<selected_index>
+        if (data.startsWith("vote:")) {
+            const parts = data.split(":");
+            // vote:questionId:up/down
+            const questionId = parseInt(parts[1]);
+            const voteType = parts[2];
+            const userId = context.from?.id;
+
+            if (userId && !isNaN(questionId)) {
+                db.addVote(userId, questionId, voteType === "up");
+                const stats = db.getQuestionStats(questionId);
+                const totalVotes = stats.thumbs_up + stats.thumbs_down;
                 const rating = totalVotes > 0 ? Math.round((stats.thumbs_up / totalVotes) * 100) : 0;
                 
                 await context.answer({ text: voteType === "up" ? "Спасибо за лайк! 👍" : "Спасибо за отзыв. 👎" });
@@ -413,7 +1483,8 @@ const bot = new Bot(token)
                            chat_id: context.message.chat.id,
                            message_id: context.message.id,
                            caption: `✅ Правильно!\n\nРейтинг: ${rating}%\nВы проголосовали: ${voteType === "up" ? "👍" : "👎"}`,
-                           reply_markup: new InlineKeyboard() // empty
+                           // Only the explanation stays available
+                           reply_markup: new InlineKeyboard().text("💡 Почему?", `why:${questionId}`)
                        });
                    } catch (e) {
                        console.error("Error editing vote message:", e);
@@ -434,33 +1505,24 @@ const bot = new Bot(token)
             
             if (!message) return;
 
+            const userId = context.from?.id;
+            if (userId) {
+                const isCorrect = selectedIndex === correctIndex;
+                // Telegram only gives us the send date with second precision, good enough for response times
+                const servedAt = message.createdAt ? message.createdAt * 1000 : null;
+                recordAnswer(userId, questionId, selectedIndex, isCorrect, servedAt);
+            }
+
             if (selectedIndex === correctIndex) {
                 await context.answer({ text: "Правильно! 🎉" });
-                
-                const stats = db.getQuestionStats(questionId);
-                const totalVotes = stats.thumbs_up + stats.thumbs_down;
-                const rating = totalVotes > 0 ? Math.round((stats.thumbs_up / totalVotes) * 100) : 0;
 
-                const voteKeyboard = new InlineKeyboard()
-                    .text(`👍 (${stats.thumbs_up})`, `vote:${questionId}:up`)
-                    .text(`👎 (${stats.thumbs_down})`, `vote:${questionId}:down`);
-
-                try {
-                    // Show correct letter
-                    await bot.api.editMessageCaption({
-                        chat_id: message.chat.id,
-                        message_id: message.id,
-                        caption: `✅ Правильно! (Ответ: ${String.fromCharCode(65 + correctIndex)})\n\nРейтинг: ${rating}%`,
-                        reply_markup: voteKeyboard
-                    });
-                } catch (e) {
-                    console.error("Error editing message:", e);
-                }
+                // True/false shows the word, the other questions the letter
+                const question = db.getQuestionById(questionId, true);
+                const answerText = question ? questionTypes.formatCorrectAnswer(question) : String.fromCharCode(65 + correctIndex);
+                await showSolvedQuestion(message.chat.id, message.id, questionId, answerText, "✅ Правильно!");
 
                 // Ask new question
-                const chatId = message.chat.id;
-                const userId = context.from?.id;
-                await sendRandomQuestion(bot, chatId, userId);
+                await sendRandomQuestion(bot, message.chat.id, userId);
             } else {
                 await context.answer({ text: "Неверно! Попробуйте еще раз. ❌" });
                 
@@ -497,6 +1559,9 @@ const bot = new Bot(token)
     .onStart(({ info }) => console.log(`Bot ${info.username} started!`));
 
 
+// The answer mode picked with /ask open|choice, it lasts until the next /ask or /mode
+const runModes = new Map<number, db.AnswerMode>();
+
 // Helper to send a question
 async function sendRandomQuestion(bot: Bot, chatId: number, userId: number | undefined, specificQuestionId?: number) {
     if (!userId) return;
@@ -509,54 +1574,583 @@ async function sendRandomQuestion(bot: Bot, chatId: number, userId: number | und
     let question;
     if (specificQuestionId && !isNaN(specificQuestionId)) {
         question = db.getQuestionById(specificQuestionId);
-        if (!question) {
+        // The question may belong to another topic, a private one is only shown to its members
+        if (!question || !auth.can(userId, "study", question.study_key)) {
             return bot.api.sendMessage({ chat_id: chatId, text: `Вопрос #${specificQuestionId} не найден.` });
         }
+        db.markQuestionServed(userId, question.id);
     } else {
-        question = db.getRandomQuestion(studyKey, userId);
+        // The topic may have been deleted or made private since it was chosen
+        if (!auth.can(userId, "study", studyKey)) {
+            return bot.api.sendMessage({ chat_id: chatId, text: `Тема '${studyKey}' больше недоступна. Выберите другую через /study <тема>.` });
+        }
+        const next = db.getNextQuestion(studyKey, userId, newCardsPerDay);
+        if (next.status === "empty") {
+            return bot.api.sendMessage({ chat_id: chatId, text: `Вопросов по теме '${studyKey}' не найдено. Отправьте мне текст для генерации (если есть права)!` });
+        }
+        if (next.status === "done") {
+            const limitMsg = next.newLimitReached ? `\nЛимит новых вопросов на сегодня (${newCardsPerDay}) исчерпан.` : "";
+            const nextMsg = next.nextDueAt ? `\nСледующее повторение: ${formatDueDate(next.nextDueAt)}.` : "";
+            return bot.api.sendMessage({ chat_id: chatId, text: `🎉 По теме '${studyKey}' сейчас нечего повторять!${limitMsg}${nextMsg}` });
+        }
+        question = next.question;
     }
 
-    if (!question) {
-        return bot.api.sendMessage({ chat_id: chatId, text: `Вопросов по теме '${studyKey}' не найдено. Отправьте мне текст для генерации (если есть права)!` });
-    }
+    // Only choice questions have options to hide, the other types are typed anyway
+    const open = (runModes.get(userId) ?? db.getAnswerMode(userId)) === "open" && (question.type === "single" || question.type === "multi");
 
-    const options = question.options; // Already parsed by db.getRandomQuestion
-    
     let imageSource: string | Buffer;
-    
-    if (imageStorage.imageExists(question.id)) {
-        imageSource = imageStorage.getQuestionImagePath(question.id);
-    } else {
-        // Fallback: Generate on the fly and save
-        try {
-            const imageBuffer = await renderQuestionToImage(question.question_text, options);
-            await imageStorage.saveQuestionImage(question.id, imageBuffer);
-            imageSource = imageBuffer;
-        } catch (e) {
-            console.error("Failed to render image:", e);
-            return bot.api.sendMessage({ chat_id: chatId, text: "Ошибка при рендеринге вопроса." });
-        }
+    try {
+        imageSource = await questionImage(question, open);
+    } catch (e) {
+        console.error("Failed to render image:", e);
+        return bot.api.sendMessage({ chat_id: chatId, text: "Ошибка при рендеринге вопроса." });
     }
 
-    const keyboard = new InlineKeyboard();
-    // Use A, B, C... buttons
-    options.forEach((_, idx) => {
-        const letter = String.fromCharCode(65 + idx); // A, B, C...
-        // payload: q:<question_id>:<correct_index>:<this_index>
-        keyboard.text(letter, `q:${question.id}:${question.correct_index}:${idx}`);
-        if ((idx + 1) % 4 === 0) keyboard.row(); // Max 4 per row
-    });
+    const keyboard = open
+        ? new InlineKeyboard().text("🏳 Показать ответ", `reveal:${question.id}`)
+        : answerKeyboard(question);
 
     // Determine how to send the photo based on source type
     const photo = typeof imageSource === 'string' 
         ? MediaUpload.path(imageSource) 
         : MediaUpload.buffer(imageSource, "question.png");
 
-    return bot.api.sendPhoto({
+    // Only the latest question waits for a typed answer
+    awaitedAnswers.delete(userId);
+    const sent = await bot.api.sendPhoto({
         chat_id: chatId,
         photo: photo,
         reply_markup: keyboard
     });
+    if (open || questionTypes.isTypedAnswer(question.type)) {
+        awaitedAnswers.set(userId, { questionId: question.id, chatId, messageId: sent.message_id, servedAt: Date.now(), open });
+    }
+    return sent;
+}
+
+// The saved picture of the question, missing ones are rendered on the fly and saved
+async function questionImage(question: { id: number, question_text: string, options: string[], type: questionTypes.QuestionType }, open = false): Promise<string | Buffer> {
+    const variant = open ? "open" : "question";
+    if (imageStorage.imageExists(question.id, variant)) {
+        return imageStorage.getQuestionImagePath(question.id, variant);
+    }
+    const imageBuffer = await renderQuestionToImage(question.question_text, question.options, question.type, open);
+    await imageStorage.saveQuestionImage(question.id, imageBuffer, variant);
+    return imageBuffer;
+}
+
+function answerKeyboard(question: { id: number, type: questionTypes.QuestionType, options: string[], correct_index: number }) {
+    const keyboard = new InlineKeyboard();
+
+    if (question.type === "true_false") {
+        question.options.forEach((option, idx) => keyboard.text(option, `q:${question.id}:${question.correct_index}:${idx}`));
+        return keyboard;
+    }
+
+    if (question.type === "multi") {
+        // The selection lives in the buttons themselves, see the m: handler
+        question.options.forEach((_, idx) => {
+            keyboard.text(`⬜ ${String.fromCharCode(65 + idx)}`, `m:${question.id}:${idx}`);
+            if ((idx + 1) % 4 === 0) keyboard.row();
+        });
+        return keyboard.row().text("Ответить", `ms:${question.id}`);
+    }
+
+    if (questionTypes.isTypedAnswer(question.type)) {
+        return keyboard.text("🏳 Показать ответ", `reveal:${question.id}`);
+    }
+
+    // Use A, B, C... buttons
+    question.options.forEach((_, idx) => {
+        const letter = String.fromCharCode(65 + idx); // A, B, C...
+        // payload: q:<question_id>:<correct_index>:<this_index>
+        keyboard.text(letter, `q:${question.id}:${question.correct_index}:${idx}`);
+        if ((idx + 1) % 4 === 0) keyboard.row(); // Max 4 per row
+    });
+    return keyboard;
+}
+
+// Cloze and numeric questions are answered with a message, at most one open question per user
+const MAX_TYPED_ANSWER_CHARS = 200;
+// Answers in the user's own words can be a few sentences
+const MAX_OPEN_ANSWER_CHARS = 1000;
+// Without replying to the question, only text sent soon after it counts as the answer
+const AWAITED_ANSWER_WINDOW_MS = 5 * 60 * 1000;
+const AWAITED_ANSWER_TTL_MS = 60 * 60 * 1000;
+
+interface AwaitedAnswer {
+    questionId: number;
+    chatId: number;
+    messageId: number;
+    servedAt: number;
+    open: boolean;              // a choice question shown without options, graded by the LLM
+}
+
+const awaitedAnswers = new Map<number, AwaitedAnswer>();
+
+function getAwaitedAnswer(userId: number): AwaitedAnswer | null {
+    const awaited = awaitedAnswers.get(userId);
+    if (!awaited) return null;
+    if (Date.now() - awaited.servedAt > AWAITED_ANSWER_TTL_MS) {
+        awaitedAnswers.delete(userId);
+        return null;
+    }
+    return awaited;
+}
+
+async function handleTypedAnswer(context: any, userId: number, awaited: AwaitedAnswer, input: string) {
+    const question = db.getQuestionById(awaited.questionId);
+    if (!question) {
+        awaitedAnswers.delete(userId);
+        return context.send("Этот вопрос уже удален. Используйте /ask для следующего.");
+    }
+
+    if (awaited.open) return handleOpenAnswer(context, userId, awaited, question, input);
+
+    const isCorrect = questionTypes.checkTypedAnswer(question.type, question.answer, input);
+    recordAnswer(userId, question.id, null, isCorrect, awaited.servedAt);
+    if (!isCorrect) {
+        return context.send("Неверно! Попробуйте еще раз или нажмите «Показать ответ». ❌");
+    }
+
+    awaitedAnswers.delete(userId);
+    await context.send("Правильно! 🎉");
+    await showSolvedQuestion(awaited.chatId, awaited.messageId, question.id, questionTypes.formatCorrectAnswer(question), "✅ Правильно!");
+    await sendRandomQuestion(bot, awaited.chatId, userId);
+}
+
+const gradeTitles: Record<ai.GradeVerdict, string> = {
+    correct: "✅ Правильно!",
+    partial: "🟡 Частично верно.",
+    wrong: "❌ Неверно."
+};
+
+// Open mode: the answer is graded once by the LLM, there is no second try
+async function handleOpenAnswer(context: any, userId: number, awaited: AwaitedAnswer, question: NonNullable<ReturnType<typeof db.getQuestionById>>, input: string) {
+    const statusText = "Проверяю ответ... ⏳";
+    const status = statusUpdater(await context.send(statusText), statusText);
+    const expected = questionTypes.correctAnswerText(question);
+
+    let grade: ai.Grade | null = null;
+    try {
+        const source = question.source_id === null ? null : db.getSource(question.source_id);
+        grade = await ai.gradeOpenAnswer(question.question_text, expected, input, source?.text);
+    } catch (e) {
+        console.error("Error grading open answer:", e);
+    }
+    if (!grade) {
+        // The question keeps waiting, the user can send the answer again
+        return status("Не удалось проверить ответ. Попробуйте отправить его еще раз или нажмите «Показать ответ».");
+    }
+
+    awaitedAnswers.delete(userId);
+    recordAnswer(userId, question.id, null, grade.verdict === "correct", awaited.servedAt, grade.verdict === "partial");
+
+    await status(`${gradeTitles[grade.verdict]} ${grade.explanation}\n\nПравильный ответ: ${expected}`);
+    await showSolvedQuestion(awaited.chatId, awaited.messageId, question.id, expected, gradeTitles[grade.verdict]);
+    await sendRandomQuestion(bot, awaited.chatId, userId);
+}
+
+// Stores the attempt, the first attempt on a serving also schedules the next review.
+// A partially correct open answer counts as wrong, but is scheduled as a near miss.
+function recordAnswer(userId: number, questionId: number, selectedIndex: number | null, isCorrect: boolean, servedAt: number | null, partial = false) {
+    const attempt = db.recordAttempt(userId, questionId, selectedIndex, isCorrect, servedAt);
+    if (attempt.isFirstTry) {
+        db.recordReview(userId, questionId, partial ? PARTIAL_RECALL_QUALITY : qualityFromAnswer(isCorrect, attempt.responseMs));
+    }
+}
+
+// Replaces the answer buttons with the right answer and the rating buttons
+async function showSolvedQuestion(chatId: number, messageId: number, questionId: number, answerText: string, title: string) {
+    const stats = db.getQuestionStats(questionId);
+    const totalVotes = stats.thumbs_up + stats.thumbs_down;
+    const rating = totalVotes > 0 ? Math.round((stats.thumbs_up / totalVotes) * 100) : 0;
+
+    const voteKeyboard = new InlineKeyboard()
+        .text(`👍 (${stats.thumbs_up})`, `vote:${questionId}:up`)
+        .text(`👎 (${stats.thumbs_down})`, `vote:${questionId}:down`)
+        .row()
+        .text("💡 Почему?", `why:${questionId}`);
+
+    try {
+        // Show correct letter
+        await bot.api.editMessageCaption({
+            chat_id: chatId,
+            message_id: messageId,
+            caption: `${title} (Ответ: ${answerText})\n\nРейтинг: ${rating}%`,
+            reply_markup: voteKeyboard
+        });
+    } catch (e) {
+        console.error("Error editing message:", e);
+    }
+}
+
+// /exam: a fixed set of questions under a time limit, answered once each, with no feedback until the report.
+// The session lives in the database; the time limit is a timer that is set again after a restart.
+const EXAM_DEFAULT_QUESTIONS = 10;
+const EXAM_MAX_QUESTIONS = 100;
+const EXAM_MAX_MINUTES = 300;
+const EXAM_REPORT_CHARS = 3500;
+
+const examTimers = new Map<number, ReturnType<typeof setTimeout>>();
+
+function scheduleExamEnd(exam: db.Exam) {
+    clearTimeout(examTimers.get(exam.id));
+    examTimers.set(exam.id, setTimeout(() => {
+        finishExamSession(exam.id).catch(e => console.error(`Failed to finish exam ${exam.id}:`, e));
+    }, Math.max(0, exam.endsAt - Date.now())));
+}
+
+// Sends the current question of the exam, or finishes it when there is none left
+async function advanceExam(examId: number) {
+    const exam = db.getExam(examId);
+    if (!exam || exam.finishedAt !== null) return;
+    if (exam.position >= exam.questionCount || Date.now() >= exam.endsAt) return finishExamSession(examId);
+
+    const item = db.getExamQuestions(examId)[exam.position]!;
+    const question = item.question && { ...item.question, id: item.questionId };
+    let imageSource: string | Buffer | null = null;
+    if (question) {
+        try {
+            imageSource = await questionImage(question);
+        } catch (e) {
+            console.error("Failed to render image:", e);
+        }
+    }
+    if (!question || !imageSource) {
+        // Purged since the exam started or impossible to show, counted as missed
+        db.recordExamAnswer(examId, exam.position, null, false);
+        return advanceExam(examId);
+    }
+
+    const minutesLeft = Math.max(1, Math.ceil((exam.endsAt - Date.now()) / 60000));
+    try {
+        const sent = await bot.api.sendPhoto({
+            chat_id: exam.chatId,
+            photo: typeof imageSource === "string" ? MediaUpload.path(imageSource) : MediaUpload.buffer(imageSource, "question.png"),
+            caption: `📝 Вопрос ${exam.position + 1}/${exam.questionCount} · осталось ${minutesLeft} мин`,
+            reply_markup: examKeyboard(examId, exam.position, question)
+        });
+        db.setExamQuestionMessage(examId, exam.position, sent.message_id);
+    } catch (e) {
+        // E.g. the user blocked the bot, the exam still ends with its timer
+        console.error("Failed to send exam question:", e);
+    }
+}
+
+// Like answerKeyboard, but nothing tells whether the answer was right
+function examKeyboard(examId: number, position: number, question: { id: number, type: questionTypes.QuestionType, options: string[] }) {
+    const keyboard = new InlineKeyboard();
+    const prefix = `ex:${examId}:${position}`;
+
+    if (question.type === "multi") {
+        question.options.forEach((_, idx) => {
+            keyboard.text(`⬜ ${String.fromCharCode(65 + idx)}`, `m:${question.id}:${idx}`);
+            if ((idx + 1) % 4 === 0) keyboard.row();
+        });
+        keyboard.row().text("Ответить", `${prefix}:submit`);
+    } else if (!questionTypes.isTypedAnswer(question.type)) {
+        question.options.forEach((option, idx) => {
+            keyboard.text(question.type === "true_false" ? option : String.fromCharCode(65 + idx), `${prefix}:${idx}`);
+            if ((idx + 1) % 4 === 0) keyboard.row();
+        });
+    }
+    return keyboard.row().text("⏭ Пропустить", `${prefix}:skip`);
+}
+
+// `answer` is what the report shows as the user's answer, null for a skipped question
+async function submitExamAnswer(exam: db.Exam, position: number, answer: string | null, isCorrect: boolean) {
+    if (Date.now() >= exam.endsAt) return finishExamSession(exam.id);
+
+    const item = db.getExamQuestions(exam.id)[position];
+    if (!item || !db.recordExamAnswer(exam.id, position, answer, isCorrect)) return;
+    // Skipping leaves the review schedule alone
+    if (answer !== null) recordAnswer(exam.userId, item.questionId, null, isCorrect, item.servedAt);
+
+    await closeExamQuestion(exam, item, answer === null ? "пропущен" : "ответ принят");
+    await advanceExam(exam.id);
+}
+
+async function closeExamQuestion(exam: db.Exam, item: { position: number, messageId: number | null }, status: string) {
+    if (!item.messageId) return;
+    try {
+        await bot.api.editMessageCaption({
+            chat_id: exam.chatId,
+            message_id: item.messageId,
+            caption: `📝 Вопрос ${item.position + 1}/${exam.questionCount}: ${status}`,
+            reply_markup: new InlineKeyboard()
+        });
+    } catch (e) {
+        console.error("Failed to close exam question:", e);
+    }
+}
+
+async function finishExamSession(examId: number) {
+    clearTimeout(examTimers.get(examId));
+    examTimers.delete(examId);
+    if (!db.finishExam(examId)) return;
+
+    const exam = db.getExam(examId)!;
+    const items = db.getExamQuestions(examId);
+    const current = items[exam.position];
+    if (current && current.answeredAt === null) {
+        await closeExamQuestion(exam, current, exam.finishedAt! >= exam.endsAt ? "время вышло" : "экзамен завершен");
+    }
+
+    try {
+        await bot.api.sendMessage({ chat_id: exam.chatId, text: formatExamReport(exam, items), parse_mode: "HTML" });
+    } catch (e) {
+        console.error("Failed to send exam report:", e);
+    }
+}
+
+function formatExamReport(exam: db.Exam, items: ReturnType<typeof db.getExamQuestions>): string {
+    const correct = items.filter(item => item.isCorrect).length;
+    const unanswered = items.filter(item => item.answeredAt === null).length;
+    const ending = unanswered === 0 ? "🏁 Все вопросы пройдены."
+        : exam.finishedAt! >= exam.endsAt ? "⏰ Время вышло."
+        : "🛑 Экзамен завершен досрочно.";
+
+    let text = `📝 <b>Экзамен по теме '${escapeHtml(exam.studyKey)}'</b>\n${ending}\n\n`;
+    text += `Результат: <b>${correct}/${exam.questionCount}</b> (${Math.round(correct / exam.questionCount * 100)}%)\n`;
+    text += `Время: ${formatDuration(exam.finishedAt! - exam.startedAt)} из ${formatDuration(exam.endsAt - exam.startedAt)}\n`;
+    if (unanswered > 0) text += `Без ответа: ${unanswered}\n`;
+
+    const missed = items.filter(item => !item.isCorrect);
+    if (missed.length === 0) return text + "\n🎉 Ни одной ошибки!";
+
+    text += "\n<b>Ошибки и пропуски:</b>\n";
+    for (const [idx, item] of missed.entries()) {
+        const entry = item.question
+            ? `\n${item.position + 1}. <b>#${item.questionId}</b> ${escapeHtml(item.question.question_text)}\n`
+                + `Ваш ответ: ${item.givenAnswer === null ? "—" : escapeHtml(item.givenAnswer)}\n`
+                + `✅ ${escapeHtml(questionTypes.correctAnswerText(item.question))}\n`
+            : `\n${item.position + 1}. #${item.questionId} (вопрос удален)\n`;
+        // Telegram messages are limited to 4096 characters
+        if (text.length + entry.length > EXAM_REPORT_CHARS) {
+            text += `\n… и еще ${missed.length - idx}`;
+            break;
+        }
+        text += entry;
+    }
+    return text;
+}
+
+// 754000 -> "12:34"
+function formatDuration(ms: number): string {
+    const seconds = Math.max(0, Math.round(ms / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+// Exams that were running when the bot stopped continue, or end right away if their time is up
+function resumeExams() {
+    for (const exam of db.getRunningExams()) {
+        scheduleExamEnd(exam);
+        // Stopped after an answer but before the next question went out, nothing to answer until it is sent
+        const current = db.getExamQuestions(exam.id)[exam.position];
+        if (!current?.messageId) {
+            advanceExam(exam.id).catch(e => console.error(`Failed to resume exam ${exam.id}:`, e));
+        }
+    }
+}
+
+// Group chats: a chat admin picks the topic with /study, /ask starts a round. Everyone answers once
+// with the buttons while the round is open, then the answer is revealed together with who got it right.
+// Rounds don't touch the personal review schedule, the score is kept per chat.
+const GROUP_ANSWER_SECONDS = parseInt(process.env.GROUP_ANSWER_SECONDS || "30");
+const GROUP_WINNERS_SHOWN = 20;
+
+const roundTimers = new Map<number, ReturnType<typeof setTimeout>>();
+
+function isGroupChat(chat: { type: string }): boolean {
+    return chat.type === "group" || chat.type === "supergroup";
+}
+
+function scheduleRoundEnd(round: db.ChatRound) {
+    clearTimeout(roundTimers.get(round.id));
+    roundTimers.set(round.id, setTimeout(() => {
+        closeGroupRound(round.id).catch(e => console.error(`Failed to close group round ${round.id}:`, e));
+    }, Math.max(0, round.endsAt - Date.now())));
+}
+
+async function isChatAdmin(chatId: number, userId: number): Promise<boolean> {
+    try {
+        const member = await bot.api.getChatMember({ chat_id: chatId, user_id: userId });
+        return member.status === "creator" || member.status === "administrator";
+    } catch (e) {
+        console.error("Failed to get chat member:", e);
+        return false;
+    }
+}
+
+// /study in a group shows or changes the chat's topic. Only existing topics the admin can study are allowed.
+async function setChatTopic(context: any, userId: number) {
+    const chatId = context.chat.id;
+    const key = context.text?.split(" ").slice(1).join(" ");
+    if (!key) {
+        const current = db.getChatStudyKey(chatId);
+        return context.send(current
+            ? `Тема чата: ${current}. /ask — следующий вопрос, /top — рейтинг чата.`
+            : "Тема чата не выбрана. Администратор чата может выбрать ее: /study <тема>");
+    }
+
+    if (!auth.isAdmin(userId) && !await isChatAdmin(chatId, userId)) {
+        return context.send("Тему чата может выбрать только администратор чата.");
+    }
+    if (!db.getTopic(key) || !auth.can(userId, "study", key)) {
+        return context.send("Тема не найдена.");
+    }
+
+    db.setChatStudyKey(chatId, key, userId);
+    return context.send(`Тема чата установлена: ${key}.\n/ask — задать вопрос всем, у каждого ${GROUP_ANSWER_SECONDS} сек. и одна попытка.`);
+}
+
+async function startGroupRound(chatId: number): Promise<unknown> {
+    const open = db.getOpenChatRound(chatId);
+    if (open) {
+        return bot.api.sendMessage({ chat_id: chatId, text: "Предыдущий вопрос еще открыт, дождитесь ответа.", reply_parameters: open.messageId ? { message_id: open.messageId } : undefined });
+    }
+
+    const topic = db.getChatTopic(chatId);
+    if (!topic) {
+        return bot.api.sendMessage({ chat_id: chatId, text: "Тема чата не выбрана. Администратор чата может выбрать ее: /study <тема>" });
+    }
+    const studyKey = topic.studyKey;
+    // Deleted topics and private ones the admin who picked them has lost access to are not asked
+    if (topic.setBy === null || !auth.can(topic.setBy, "study", studyKey)) {
+        return bot.api.sendMessage({ chat_id: chatId, text: `Тема '${studyKey}' больше недоступна. Администратор чата может выбрать другую: /study <тема>` });
+    }
+    const questionId = db.pickChatQuestion(chatId, studyKey);
+    const question = questionId === null ? null : db.getQuestionById(questionId);
+    if (!question) {
+        return bot.api.sendMessage({ chat_id: chatId, text: `В теме '${studyKey}' нет вопросов с выбором ответа.` });
+    }
+
+    // Opened before the first await, so a second /ask meanwhile sees it and backs off
+    const round = db.createChatRound(chatId, question.id, GROUP_ANSWER_SECONDS * 1000);
+
+    let imageSource: string | Buffer;
+    try {
+        imageSource = await questionImage(question);
+    } catch (e) {
+        console.error("Failed to render image:", e);
+        db.closeChatRound(round.id);
+        return bot.api.sendMessage({ chat_id: chatId, text: "Ошибка при рендеринге вопроса." });
+    }
+
+    const keyboard = new InlineKeyboard();
+    question.options.forEach((option, idx) => {
+        keyboard.text(question.type === "true_false" ? option : String.fromCharCode(65 + idx), `g:${round.id}:${idx}`);
+        if ((idx + 1) % 4 === 0) keyboard.row();
+    });
+
+    try {
+        const sent = await bot.api.sendPhoto({
+            chat_id: chatId,
+            photo: typeof imageSource === "string" ? MediaUpload.path(imageSource) : MediaUpload.buffer(imageSource, "question.png"),
+            caption: `⏳ ${GROUP_ANSWER_SECONDS} сек. на ответ, у каждого одна попытка.`,
+            reply_markup: keyboard
+        });
+        db.setChatRoundMessage(round.id, sent.message_id);
+        scheduleRoundEnd(round);
+    } catch (e) {
+        // Nobody saw the question, so the round doesn't count
+        console.error("Failed to send group question:", e);
+        db.closeChatRound(round.id);
+    }
+}
+
+// Reveals the answer in place of the buttons, with the members who got it right
+async function closeGroupRound(roundId: number) {
+    clearTimeout(roundTimers.get(roundId));
+    roundTimers.delete(roundId);
+    if (!db.closeChatRound(roundId)) return;
+
+    const round = db.getChatRound(roundId)!;
+    const question = db.getQuestionById(round.questionId, true);
+    if (!round.messageId || !question) return;
+
+    const answers = db.getChatRoundAnswers(roundId);
+    const winners = answers.filter(answer => answer.isCorrect).map(answer => answer.userName);
+    let caption = `✅ Ответ: ${questionTypes.formatCorrectAnswer(question)}`;
+    if (question.type === "single") caption += ` — ${question.options[question.correct_index]}`;
+    caption += "\n\n";
+    if (answers.length === 0) {
+        caption += "Никто не ответил.";
+    } else if (winners.length === 0) {
+        caption += `Никто не ответил верно (ответов: ${answers.length}).`;
+    } else {
+        // Photo captions are limited to 1024 characters
+        const shown = winners.slice(0, GROUP_WINNERS_SHOWN).join(", ");
+        const more = winners.length > GROUP_WINNERS_SHOWN ? ` и еще ${winners.length - GROUP_WINNERS_SHOWN}` : "";
+        caption += `Верно ответили ${winners.length} из ${answers.length}: ${shown}${more}`;
+    }
+
+    try {
+        await bot.api.editMessageCaption({
+            chat_id: round.chatId,
+            message_id: round.messageId,
+            caption: caption.slice(0, 1024),
+            reply_markup: new InlineKeyboard()
+                .text("▶️ Еще вопрос", "gnext")
+                .text("💡 Почему?", `why:${question.id}`)
+        });
+    } catch (e) {
+        console.error("Failed to close group round:", e);
+    }
+}
+
+function formatChatLeaderboard(chatId: number): string {
+    const studyKey = db.getChatStudyKey(chatId);
+    const rows = db.getChatLeaderboard(chatId);
+    let text = "🏆 <b>Рейтинг чата</b>\n";
+    if (studyKey) text += `Тема: ${escapeHtml(studyKey)}\n`;
+    if (rows.length === 0) return text + "\nПока никто не ответил. /ask — задать вопрос.";
+
+    text += "\n";
+    rows.forEach((row, idx) => {
+        const medal = ["🥇", "🥈", "🥉"][idx] ?? `${idx + 1}.`;
+        text += `${medal} ${escapeHtml(row.userName)} — ${row.score} из ${row.answered}\n`;
+    });
+    return text;
+}
+
+// Rounds that were open when the bot stopped are revealed when their time is up
+function resumeGroupRounds() {
+    for (const round of db.getOpenChatRounds()) scheduleRoundEnd(round);
+}
+
+// Questions saved without an explanation get one from the model the first time it is needed
+async function questionExplanation(question: NonNullable<ReturnType<typeof db.getQuestionById>>): Promise<string | null> {
+    if (question.explanation) return question.explanation;
+    try {
+        const explanation = await ai.explainQuestion({ ...question, question: question.question_text });
+        if (explanation) db.setQuestionExplanation(question.id, explanation);
+        return explanation;
+    } catch (e) {
+        console.error(`Failed to explain question ${question.id}:`, e);
+        return null;
+    }
+}
+
+// Writes the missing explanations one by one, in the background so the bot answers meanwhile
+async function backfillExplanations() {
+    const questions = db.getQuestionsWithoutExplanation();
+    console.log(`🔄 Writing explanations for ${questions.length} questions...`);
+    let written = 0;
+    for (const q of questions) {
+        try {
+            const explanation = await ai.explainQuestion({ ...q, question: q.question_text });
+            if (!explanation) continue;
+            db.setQuestionExplanation(q.id, explanation);
+            written++;
+            if (written % 10 === 0) console.log(`Explained ${written}/${questions.length} questions...`);
+        } catch (e) {
+            console.error(`Failed to explain question ${q.id}:`, e);
+        }
+    }
+    console.log(`✅ Finished explanations: ${written}/${questions.length} written.`);
 }
 
 // Startup Logic for cleaning right answers
@@ -567,6 +2161,9 @@ if (process.env.CLEAN_RIGHT_ANSWERS === "true") {
         console.log(`Found ${questions.length} questions to process.`);
         
         for (const q of questions) {
+            // Only single choice answers are biased towards the first option
+            if (q.type !== "single") continue;
+
             let options: string[];
             try {
                 options = JSON.parse(q.options);
@@ -594,7 +2191,7 @@ if (process.env.CLEAN_RIGHT_ANSWERS === "true") {
 
             // Regenerate image
             try {
-                const imageBuffer = await renderQuestionToImage(q.question_text, options);
+                const imageBuffer = await renderQuestionToImage(q.question_text, options, q.type);
                 await imageStorage.saveQuestionImage(q.id, imageBuffer);
                 if (q.id % 10 === 0) console.log(`Processed question ${q.id}...`);
             } catch (e) {
@@ -608,24 +2205,132 @@ if (process.env.CLEAN_RIGHT_ANSWERS === "true") {
 }
 
 bot.start();
+resumeExams();
+resumeGroupRounds();
 
-// Start leaderboard generation job that runs every minute
-console.log("🔄 Starting leaderboard generation scheduler (runs every minute)...");
-setInterval(() => {
-  try {
-    console.log("📊 Generating leaderboards...");
-    db.generateLeaderboards();
-  } catch (error) {
-    console.error("Error generating leaderboards:", error);
-  }
-}, 60 * 1000); // 60 seconds = 1 minute
-
-// Generate initial leaderboards on startup
-try {
-  db.generateLeaderboards();
-  console.log("📊 Initial leaderboards generated");
-} catch (error) {
-  console.error("Error generating initial leaderboards:", error);
+if (process.env.BACKFILL_EXPLANATIONS === "true") {
+    backfillExplanations();
+}
+
+// Leaderboards are updated as answers come in, this job only records history snapshots
+// when the standings changed and applies the retention policy to old ones
+const snapshotMinutes = parseInt(process.env.LEADERBOARD_SNAPSHOT_MINUTES || "5");
+const historyFullDays = parseInt(process.env.LEADERBOARD_HISTORY_FULL_DAYS || "7");
+const historyDailyDays = parseInt(process.env.LEADERBOARD_HISTORY_DAILY_DAYS || "90");
+
+function snapshotLeaderboards() {
+    try {
+        const written = db.snapshotLeaderboards();
+        if (written > 0) console.log(`📊 Saved ${written} leaderboard snapshots`);
+        db.compactLeaderboardHistory(historyFullDays, historyDailyDays);
+    } catch (error) {
+        console.error("Error saving leaderboard snapshots:", error);
+    }
+}
+
+// Deleted questions and topics stay restorable from /trash for this long
+const trashRetentionDays = parseInt(process.env.TRASH_RETENTION_DAYS || "30");
+
+function purgeExpiredTrash() {
+    try {
+        const { topics, questionIds } = db.purgeExpiredTrash(trashRetentionDays);
+        for (const id of questionIds) {
+            imageStorage.deleteQuestionImage(id).catch(err => console.error("Failed to delete image:", err));
+        }
+        if (topics.length > 0 || questionIds.length > 0) {
+            // Actor 0 is the bot itself
+            db.logAudit(0, "trash.expire", null, null, { topics, questionIds, retentionDays: trashRetentionDays });
+            console.log(`🗑️ Purged ${topics.length} topics and ${questionIds.length} questions from the trash`);
+        }
+    } catch (error) {
+        console.error("Error purging trash:", error);
+    }
+}
+
+setInterval(purgeExpiredTrash, 60 * 60 * 1000);
+purgeExpiredTrash();
+
+console.log(`🔄 Starting leaderboard snapshot scheduler (runs every ${snapshotMinutes} min)...`);
+setInterval(snapshotLeaderboards, snapshotMinutes * 60 * 1000);
+snapshotLeaderboards();
+
+const topicRoleTitles: Record<db.TopicRole, string> = {
+    owner: "владелец",
+    editor: "редактор",
+    viewer: "ученик"
+};
+
+// Accepts a numeric user id or a @username the bot has seen before
+function resolveUserArg(target: string): number | null {
+    const targetId = target.startsWith("@") ? db.getUserIdByUsername(target) : parseInt(target);
+    return targetId && !isNaN(targetId) ? targetId : null;
+}
+
+const topicVisibilityTitles: Record<db.TopicVisibility, string> = {
+    public: "публичная",
+    unlisted: "по ссылке",
+    private: "приватная"
+};
+
+const leaderboardWindowTitles: Record<db.LeaderboardWindow, string> = {
+    day: "сегодня",
+    week: "эту неделю",
+    all: "всё время"
+};
+
+function parseLeaderboardWindow(value: string | undefined): db.LeaderboardWindow | null {
+    if (value === "day" || value === "week" || value === "all") return value;
+    return null;
+}
+
+function leaderboardKeyboard(current: db.LeaderboardWindow) {
+    const keyboard = new InlineKeyboard();
+    for (const [window, label] of [["day", "Сегодня"], ["week", "Неделя"], ["all", "Всё время"]] as const) {
+        keyboard.text(window === current ? `• ${label} •` : label, `top:${window}:edit`);
+    }
+    return keyboard;
+}
+
+function pluralizeRu(count: number, one: string, few: string, many: string): string {
+    const mod10 = count % 10;
+    const mod100 = count % 100;
+    if (mod10 === 1 && mod100 !== 11) return one;
+    if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return few;
+    return many;
+}
+
+// Top 5 by correct first-try answers, plus the user's own place if they are not in it
+function formatLeaderboard(studyKey: string, window: db.LeaderboardWindow, userId: number): string {
+    const entries = db.getLeaderboard(studyKey, window, 5);
+    let text = `🏆 <b>Топ игроков за ${leaderboardWindowTitles[window]}</b> (${escapeHtml(studyKey)}):\n`;
+
+    if (entries.length === 0) {
+        return text + "Пока никто не ответил правильно с первой попытки.";
+    }
+
+    entries.forEach((entry, index) => {
+        const medal = index === 0 ? "🥇" : index === 1 ? "🥈" : index === 2 ? "🥉" : "▫️";
+        const answerWord = pluralizeRu(entry.score, "ответ", "ответа", "ответов");
+        text += `${medal} ${escapeHtml(entry.username)}: ${entry.score} ${answerWord}\n`;
+    });
+
+    if (!entries.some(entry => entry.userId === userId)) {
+        const own = db.getUserRank(studyKey, window, userId);
+        text += own
+            ? `…\n🔸 Вы: #${own.rank}, ${own.score} ${pluralizeRu(own.score, "ответ", "ответа", "ответов")}`
+            : "…\n🔸 Вы пока не в рейтинге.";
+    }
+
+    return text;
+}
+
+function formatDueDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleString("ru-RU", {
+        day: "numeric",
+        month: "long",
+        hour: "2-digit",
+        minute: "2-digit"
+    });
 }
 
 function escapeHtml(unsafe: string): string {
@@ -637,6 +2342,648 @@ function escapeHtml(unsafe: string): string {
         .replace(/'/g, "&#039;");
 }
 
+// In-chat question editor, one draft per user. Nothing is written until the user saves the preview.
+const MAX_EDIT_OPTIONS = 8;
+const QUESTION_EDIT_TTL_MS = 60 * 60 * 1000;
+
+interface QuestionEdit {
+    questionId: number;
+    studyKey: string;
+    questionText: string;
+    options: string[];
+    correctIndex: number;
+    // Which field the next text message replaces, index === options.length adds a new option
+    awaiting: { field: "question" } | { field: "option", index: number } | null;
+    chatId: number;
+    preview?: Buffer;
+    updatedAt: number;
+}
+
+const questionEdits = new Map<number, QuestionEdit>();
+
+function getQuestionEdit(userId: number): QuestionEdit | null {
+    const edit = questionEdits.get(userId);
+    if (!edit) return null;
+    if (Date.now() - edit.updatedAt > QUESTION_EDIT_TTL_MS) {
+        questionEdits.delete(userId);
+        return null;
+    }
+    return edit;
+}
+
+async function handleQuestionEditInput(context: any, edit: QuestionEdit, input: string) {
+    const value = input.trim();
+    if (!value) return context.send("Текст не может быть пустым.");
+
+    if (edit.awaiting?.field === "question") {
+        edit.questionText = value;
+    } else if (edit.awaiting?.field === "option") {
+        const { index } = edit.awaiting;
+        if (edit.options.some((option, i) => i !== index && option === value)) {
+            return context.send("Такой вариант уже есть. Отправьте другой текст.");
+        }
+        edit.options[index] = value;
+    }
+
+    edit.awaiting = null;
+    edit.preview = undefined;
+    edit.updatedAt = Date.now();
+    await sendQuestionEditor(edit);
+}
+
+// Sends the editor as a new message, or redraws the given one
+async function sendQuestionEditor(edit: QuestionEdit, message?: any) {
+    let text = `✏️ <b>Редактирование вопроса #${edit.questionId}</b> (тема '${escapeHtml(edit.studyKey)}')\n\n`;
+    text += `<b>Вопрос:</b> ${escapeHtml(edit.questionText)}\n\n`;
+    edit.options.forEach((option, idx) => {
+        const mark = idx === edit.correctIndex ? " ✅" : "";
+        text += `<b>${String.fromCharCode(65 + idx)}</b>) ${escapeHtml(option)}${mark}\n`;
+    });
+    text += "\nИзменения сохранятся только после предпросмотра.";
+
+    const keyboard = new InlineKeyboard().text("✏️ Текст вопроса", "qe:text").row();
+    edit.options.forEach((_, idx) => {
+        const letter = String.fromCharCode(65 + idx);
+        keyboard
+            .text(`✏️ ${letter}`, `qe:opt:${idx}`)
+            .text(idx === edit.correctIndex ? `✅ ${letter}` : `☑️ ${letter}`, `qe:correct:${idx}`)
+            .text(`🗑 ${letter}`, `qe:rm:${idx}`)
+            .row();
+    });
+    if (edit.options.length < MAX_EDIT_OPTIONS) keyboard.text("➕ Вариант", "qe:add").row();
+    keyboard.text("👁 Предпросмотр", "qe:preview").text("✖️ Отмена", "qe:cancel");
+
+    if (message) {
+        try {
+            await bot.api.editMessageText({
+                chat_id: message.chat.id,
+                message_id: message.id,
+                text,
+                reply_markup: keyboard,
+                parse_mode: "HTML"
+            });
+        } catch (e) { console.error(e); }
+    } else {
+        await bot.api.sendMessage({ chat_id: edit.chatId, text, reply_markup: keyboard, parse_mode: "HTML" });
+    }
+}
+
+async function clearButtons(message: any) {
+    if (!message) return;
+    try {
+        await bot.api.editMessageReplyMarkup({
+            chat_id: message.chat.id,
+            message_id: message.id,
+            reply_markup: new InlineKeyboard()
+        });
+    } catch (e) { console.error(e); }
+}
+
+// Telegram bots can't send files bigger than this
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+// Why the user can't add questions to the topic right now, null if they can
+function addQuestionsDenial(userId: number, studyKey: string): string | null {
+    if (!auth.can(userId, "add_questions", studyKey)) {
+        return "У вас нет прав добавлять новые вопросы в эту тему. Вы можете только учить её.";
+    }
+    if (db.getTopic(studyKey)?.archived) {
+        return "Тема находится в архиве. Верните её через /topic unarchive, чтобы добавлять вопросы.";
+    }
+    return null;
+}
+
+// Generates questions from plain text (a message or a confirmed photo transcription) and saves them
+async function generateFromText(
+    status: (text: string) => Promise<void>,
+    statusText: string,
+    userId: number,
+    studyKey: string,
+    text: string,
+    sourceKind: db.SourceKind,
+    auditDetails: Record<string, unknown>
+) {
+    try {
+        const chunks = extract.splitText(text, ai.CHUNK_CHARS);
+        const results = await ai.generateQuestionsForChunks(chunks, studyKey, progress => {
+            status(`${statusText}\n${formatGenerationProgress(progress)}`);
+        });
+        const rejected = results.flatMap(r => r.rejected);
+
+        if (results.every(r => r.questions.length === 0)) {
+            return status(`Не удалось сгенерировать вопросы из этого текста. Попробуйте добавить больше деталей.${formatRejected(rejected)}`);
+        }
+
+        // Every chunk becomes its own source, that is the text its questions were generated from
+        const savedIds: number[] = [];
+        const skipped: SkippedQuestion[] = [];
+        for (const [idx, chunk] of chunks.entries()) {
+            const saved = await saveGeneratedQuestions(studyKey, results[idx]?.questions ?? [], {
+                studyKey,
+                submittedBy: userId,
+                kind: sourceKind,
+                fileName: null,
+                fromPage: null,
+                toPage: null,
+                text: chunk
+            });
+            savedIds.push(...saved.savedIds);
+            skipped.push(...saved.skipped);
+        }
+
+        db.logAudit(userId, "questions.generate", studyKey, null, {
+            questionIds: savedIds,
+            ...auditDetails,
+            chunks: chunks.length,
+            skippedDuplicates: skipped.length,
+            rejected
+        });
+
+        if (savedIds.length === 0) {
+            return status(`Все сгенерированные вопросы уже есть в теме '${studyKey}'.${formatSkippedDuplicates(skipped)}${formatRejected(rejected)}`);
+        }
+        return status(`✅ Сохранено ${savedIds.length} новых вопросов для темы '${studyKey}'. Используйте /ask для тренировки!${formatSkippedDuplicates(skipped)}${formatRejected(rejected)}`);
+    } catch (e) {
+        console.error(e);
+        return status("Ошибка генерации вопросов. Пожалуйста попробуйте снова.");
+    }
+}
+
+// Photos of notes are transcribed first, the user checks (and can correct) the text before generation.
+// Photos of one album are collected into one transcription.
+const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+const PENDING_TRANSCRIPTION_TTL_MS = 60 * 60 * 1000;
+const TRANSCRIPTION_PREVIEW_CHARS = 3500;
+
+interface PendingTranscription {
+    studyKey: string;
+    mediaGroupId: string | null;
+    // One part per photo, ordered by message id since album photos are transcribed in parallel
+    parts: { messageId: number, text: string }[];
+    corrected: boolean;
+    awaitingCorrection: boolean;
+    chatId: number;
+    previewMessageId: number | null;
+    updatedAt: number;
+}
+
+const pendingTranscriptions = new Map<number, PendingTranscription>();
+
+function getPendingTranscription(userId: number): PendingTranscription | null {
+    const pending = pendingTranscriptions.get(userId);
+    if (!pending || Date.now() - pending.updatedAt > PENDING_TRANSCRIPTION_TTL_MS) {
+        pendingTranscriptions.delete(userId);
+        return null;
+    }
+    return pending;
+}
+
+function transcriptionText(pending: PendingTranscription): string {
+    return [...pending.parts].sort((a, b) => a.messageId - b.messageId).map(part => part.text).join("\n\n");
+}
+
+async function handlePhotoUpload(context: any, mimeType: string) {
+    const userId = context.from?.id;
+    if (!userId) return;
+
+    const studyKey = db.getUserStudyKey(userId);
+    if (!studyKey) return context.send("Вы еще не выбрали тему. Используйте /study <тема> сначала.");
+    const denial = addQuestionsDenial(userId, studyKey);
+    if (denial) return context.send(denial);
+
+    const fileSize = context.document?.fileSize ?? context.photo?.bigSize.file_size;
+    if (fileSize && fileSize > MAX_PHOTO_BYTES) {
+        return context.send("Изображение слишком большое (максимум 10 МБ).");
+    }
+
+    const statusText = "Распознаю текст на фото... ⏳";
+    const statusMessage = await context.send(statusText);
+    const status = statusUpdater(statusMessage, statusText);
+
+    let text: string | null;
+    try {
+        text = await ai.transcribeImage(new Uint8Array(await context.download()), mimeType);
+    } catch (e) {
+        console.error("Failed to transcribe photo:", e);
+        return status("Не удалось распознать фото. Проверьте, что модель LLM_VISION_MODEL поддерживает изображения, и попробуйте снова.");
+    }
+    if (!text) {
+        return status("На фото не нашлось текста. Попробуйте снять ближе и при хорошем освещении.");
+    }
+
+    const mediaGroupId: string | null = context.mediaGroupId ?? null;
+    let pending = getPendingTranscription(userId);
+    if (pending && mediaGroupId && pending.mediaGroupId === mediaGroupId && !pending.awaitingCorrection) {
+        pending.parts.push({ messageId: context.id, text });
+        pending.updatedAt = Date.now();
+    } else {
+        // A new photo replaces an unconfirmed transcription
+        if (pending?.previewMessageId) await clearButtons({ chat: { id: pending.chatId }, id: pending.previewMessageId });
+        pending = {
+            studyKey,
+            mediaGroupId,
+            parts: [{ messageId: context.id, text }],
+            corrected: false,
+            awaitingCorrection: false,
+            chatId: context.chat.id,
+            previewMessageId: null,
+            updatedAt: Date.now()
+        };
+        pendingTranscriptions.set(userId, pending);
+    }
+
+    // The status message of the album's first photo becomes the preview, the others are removed
+    if (pending.previewMessageId === null) {
+        pending.previewMessageId = statusMessage.id;
+    } else {
+        try {
+            await bot.api.deleteMessage({ chat_id: statusMessage.chat.id, message_id: statusMessage.id });
+        } catch (e) { console.error(e); }
+    }
+    await sendTranscriptionPreview(pending);
+}
+
+async function handleTranscriptionCorrection(context: any, pending: PendingTranscription, input: string) {
+    const text = input.trim();
+    if (!text) return context.send("Текст не может быть пустым.");
+
+    if (pending.previewMessageId) await clearButtons({ chat: { id: pending.chatId }, id: pending.previewMessageId });
+    pending.parts = [{ messageId: 0, text }];
+    pending.corrected = true;
+    pending.awaitingCorrection = false;
+    pending.previewMessageId = null;
+    pending.updatedAt = Date.now();
+    await sendTranscriptionPreview(pending);
+}
+
+// Shows the transcription with the confirm/correct/cancel buttons, redraws the existing preview if there is one
+async function sendTranscriptionPreview(pending: PendingTranscription) {
+    const fullText = transcriptionText(pending);
+    const shown = fullText.length > TRANSCRIPTION_PREVIEW_CHARS
+        ? fullText.slice(0, TRANSCRIPTION_PREVIEW_CHARS) + "…"
+        : fullText;
+
+    const photos = pending.corrected ? "исправлено вами" : `фото: ${pending.parts.length}`;
+    let text = `📷 <b>Распознанный текст</b> для темы '${escapeHtml(pending.studyKey)}' (${photos}):\n\n`;
+    text += `<pre>${escapeHtml(shown)}</pre>\n\n`;
+    if (shown !== fullText) text += `Показано начало, всего ${fullText.length} символов.\n`;
+    text += "Проверьте текст: вопросы будут составлены по нему.";
+
+    const keyboard = new InlineKeyboard()
+        .text("✅ Создать вопросы", "ocr:ok")
+        .row()
+        .text("✏️ Исправить", "ocr:edit")
+        .text("✖️ Отмена", "ocr:cancel");
+
+    if (pending.previewMessageId) {
+        try {
+            await bot.api.editMessageText({
+                chat_id: pending.chatId,
+                message_id: pending.previewMessageId,
+                text,
+                reply_markup: keyboard,
+                parse_mode: "HTML"
+            });
+        } catch (e) { console.error(e); }
+    } else {
+        const message = await bot.api.sendMessage({ chat_id: pending.chatId, text, reply_markup: keyboard, parse_mode: "HTML" });
+        pending.previewMessageId = message.message_id;
+    }
+}
+
+// Drops questions that the topic already has, saves the rest and renders their images
+// `source` is the id of an existing source or a new one, which is only saved if a question is
+async function saveGeneratedQuestions(studyKey: string, questions: ai.GeneratedQuestion[], source: db.NewSource | number) {
+    const { fresh, skipped } = await filterDuplicates(studyKey, questions);
+    const sourceId = fresh.length === 0 ? null : typeof source === "number" ? source : db.saveSource(source);
+
+    const savedIds: number[] = [];
+    for (const q of fresh) {
+        const questionId = db.saveQuestion(studyKey, q.question, q.options, q.correct_index, q.type, q.answer, q.explanation, sourceId);
+        savedIds.push(questionId);
+        // Pre-generate and save image
+        try {
+            const imageBuffer = await renderQuestionToImage(q.question, q.options, q.type);
+            await imageStorage.saveQuestionImage(questionId, imageBuffer);
+        } catch (imgError) {
+            console.error(`Failed to generate image for question ${questionId}:`, imgError);
+            // We continue, so the question is saved, but image might be missing (fallback will handle it)
+        }
+    }
+    return { savedIds, skipped };
+}
+
+function formatSkippedDuplicates(skipped: SkippedQuestion[]): string {
+    if (skipped.length === 0) return "";
+
+    const ids = (reason: string) => {
+        const unique = [...new Set(skipped.filter(s => s.reason === reason).map(s => `#${s.duplicateOf}`))];
+        return unique.length > 5 ? unique.slice(0, 5).join(", ") + ", …" : unique.join(", ");
+    };
+    const count = (reason: string) => skipped.filter(s => s.reason === reason).length;
+
+    const parts: string[] = [];
+    if (count("text")) parts.push(`${count("text")} почти дословно совпадают с ${ids("text")}`);
+    if (count("meaning")) parts.push(`${count("meaning")} по смыслу совпадают с ${ids("meaning")}`);
+    if (count("batch")) parts.push(`${count("batch")} повторяют другие вопросы из этого текста`);
+    return `\nПропущено дубликатов: ${skipped.length} (${parts.join("; ")}).`;
+}
+
+// Questions the model got wrong: broken structure or dropped by the quality check
+function formatRejected(rejected: ai.RejectedQuestion[]): string {
+    if (rejected.length === 0) return "";
+
+    const malformed = rejected.filter(r => r.stage === "schema");
+    const parts: string[] = [];
+    if (malformed.length > 0) {
+        const reasons = [...new Set(malformed.map(r => r.reason))];
+        parts.push(`${malformed.length} с ошибками формата: ${reasons.slice(0, 3).join(", ")}${reasons.length > 3 ? ", …" : ""}`);
+    }
+    const quality = rejected.length - malformed.length;
+    if (quality > 0) parts.push(`${quality} не прошли проверку качества`);
+    return `\nОтклонено вопросов: ${rejected.length} (${parts.join("; ")}).`;
+}
+
+// Documents are either question decks (see /export) or notes to generate questions from
+async function handleDocumentUpload(context: any) {
+    const userId = context.from?.id;
+    if (!userId) return;
+
+    const document = context.document;
+    // Photos sent "as file" keep their quality, which helps with small handwriting
+    if (document.mimeType?.startsWith("image/")) return handlePhotoUpload(context, document.mimeType);
+
+    const deckFormat = deck.detectDeckFormat(document.fileName, document.mimeType);
+    const sourceKind = extract.detectSourceKind(document.fileName, document.mimeType);
+    if (!deckFormat && !sourceKind) {
+        return context.send("Поддерживаются конспекты в PDF, DOCX, Markdown, TXT и TEX, а также файлы вопросов .json и .csv (см. /export).");
+    }
+
+    const studyKey = db.getUserStudyKey(userId);
+    if (!studyKey) return context.send("Вы еще не выбрали тему. Используйте /study <тема> сначала.");
+    const denial = addQuestionsDenial(userId, studyKey);
+    if (denial) return context.send(denial);
+
+    if (deckFormat) return handleDeckUpload(context, userId, studyKey, deckFormat);
+    return handleSourceUpload(context, userId, studyKey, sourceKind!);
+}
+
+// Telegram doesn't let bots download bigger files
+const MAX_SOURCE_FILE_BYTES = 20 * 1024 * 1024;
+
+async function handleSourceUpload(context: any, userId: number, studyKey: string, kind: extract.SourceKind) {
+    const document = context.document;
+    const fileName: string = document.fileName || "файл";
+    if (document.fileSize && document.fileSize > MAX_SOURCE_FILE_BYTES) {
+        return context.send("Файл слишком большой (максимум 20 МБ).");
+    }
+
+    const statusText = `Читаю файл '${fileName}' для темы '${studyKey}'... ⏳`;
+    const status = statusUpdater(await context.send(statusText), statusText);
+
+    let sections: extract.SourceSection[];
+    try {
+        const pages = await extract.extractSource(new Uint8Array(await context.download()), kind);
+        sections = extract.splitIntoSections(pages, ai.CHUNK_CHARS);
+    } catch (e) {
+        console.error(`Failed to extract text from ${fileName}:`, e);
+        return status(`Не удалось прочитать файл '${fileName}'. Проверьте, что он не поврежден.`);
+    }
+
+    if (sections.length === 0) {
+        return status(`В файле '${fileName}' не нашлось текста. Если это скан, распознайте его перед загрузкой.`);
+    }
+
+    try {
+        const results = await ai.generateQuestionsForChunks(sections.map(section => section.text), studyKey, progress => {
+            status(`Анализирую файл '${fileName}' для темы '${studyKey}'... ⏳\n${formatGenerationProgress(progress)}`);
+        });
+
+        const report: { label: string, questionIds: number[], rejected: number }[] = [];
+        const skipped: SkippedQuestion[] = [];
+        const rejected = results.flatMap(r => r.rejected);
+        for (const [idx, section] of sections.entries()) {
+            const label = section.fromPage === null
+                ? `часть ${idx + 1}/${sections.length}`
+                : section.fromPage === section.toPage ? `стр. ${section.fromPage}` : `стр. ${section.fromPage}–${section.toPage}`;
+            // Sections are saved one by one, so later ones are also checked against the earlier ones
+            const saved = await saveGeneratedQuestions(studyKey, results[idx]?.questions ?? [], {
+                studyKey,
+                submittedBy: userId,
+                kind: "file",
+                fileName,
+                fromPage: section.fromPage,
+                toPage: section.toPage,
+                text: section.text
+            });
+            report.push({ label, questionIds: saved.savedIds, rejected: results[idx]?.rejected.length ?? 0 });
+            skipped.push(...saved.skipped);
+        }
+
+        const savedIds = report.flatMap(r => r.questionIds);
+        db.logAudit(userId, "questions.generate", studyKey, null, {
+            questionIds: savedIds,
+            fileName,
+            sections: report,
+            skippedDuplicates: skipped.length,
+            rejected
+        });
+
+        if (savedIds.length === 0) {
+            return status((skipped.length > 0
+                ? `Все вопросы из файла '${fileName}' уже есть в теме '${studyKey}'.${formatSkippedDuplicates(skipped)}`
+                : `Не удалось сгенерировать вопросы из файла '${fileName}'.`) + formatRejected(rejected));
+        }
+
+        let text = `✅ Файл '${fileName}': сохранено ${savedIds.length} новых вопросов для темы '${studyKey}'.\n\n`;
+        for (const { label, questionIds, rejected: rejectedCount } of report) {
+            const rejectedNote = rejectedCount > 0 ? `, отклонено ${rejectedCount}` : "";
+            text += questionIds.length > 0
+                ? `• ${label}: ${formatIdRanges(questionIds)} (${questionIds.length}${rejectedNote})\n`
+                : `• ${label}: вопросов нет${rejectedNote ? ` (${rejectedNote.slice(2)})` : ""}\n`;
+        }
+        text += formatSkippedDuplicates(skipped);
+        text += formatRejected(rejected);
+        text += "\nИспользуйте /ask для тренировки или /ask <номер> для конкретного вопроса!";
+        return status(text);
+    } catch (e) {
+        console.error(e);
+        return status("Ошибка генерации вопросов. Пожалуйста попробуйте снова.");
+    }
+}
+
+const SOURCE_PREVIEW_CHARS = 3500;
+
+async function sendSource(context: any, source: db.Source, questionId: number, isAdmin: boolean) {
+    const submitter = source.submitterUsername ? `@${source.submitterUsername}` : source.submittedBy ?? "неизвестно";
+    const origin = source.kind === "file"
+        ? `файл '${source.fileName}'${source.fromPage === null ? "" : source.fromPage === source.toPage ? `, стр. ${source.fromPage}` : `, стр. ${source.fromPage}–${source.toPage}`}`
+        : source.kind === "photo" ? "фото конспекта" : "текст сообщения";
+    let header = `📄 Источник #${source.id} (вопрос #${questionId})\nТема: ${source.studyKey}\nОткуда: ${origin}\nЗагрузил: ${submitter}, ${source.createdAt.toLocaleString("ru-RU")}`;
+    if (isAdmin) header += `\nПерегенерировать вопросы: /regenerate ${source.id}`;
+
+    // Long sources don't fit in a message and go as a file
+    if (source.text.length > SOURCE_PREVIEW_CHARS) {
+        return context.sendDocument(MediaUpload.buffer(Buffer.from(source.text, "utf-8"), `source_${source.id}.txt`), { caption: header });
+    }
+    return context.send(`${header}\n\n${source.text}`);
+}
+
+// Replaces the questions of a source with freshly generated ones. The old questions go to the trash,
+// so answers and votes on them can still be restored.
+async function regenerateSource(status: (text: string) => Promise<void>, userId: number, source: db.Source) {
+    try {
+        const result = await ai.generateQuestions(source.text, source.studyKey);
+        if (result.questions.length === 0) {
+            return status(`Не удалось сгенерировать вопросы из источника #${source.id}, старые вопросы оставлены.${formatRejected(result.rejected)}`);
+        }
+
+        // Removed first, otherwise the new questions would be skipped as duplicates of the old ones
+        const oldIds = db.getSourceQuestionIds(source.id);
+        for (const id of oldIds) db.deleteQuestion(id, userId);
+
+        const { savedIds, skipped } = await saveGeneratedQuestions(source.studyKey, result.questions, source.id);
+        db.logAudit(userId, "questions.regenerate", source.studyKey, source.id, {
+            deletedQuestionIds: oldIds,
+            questionIds: savedIds,
+            skippedDuplicates: skipped.length,
+            rejected: result.rejected
+        });
+
+        const removed = oldIds.length > 0 ? `Старые вопросы (${formatIdRanges(oldIds)}) перемещены в корзину.` : "Старых вопросов не было.";
+        const saved = savedIds.length > 0 ? `сохранено ${savedIds.length} новых вопросов (${formatIdRanges(savedIds)})` : "новых вопросов нет";
+        return status(`✅ Источник #${source.id}: ${saved}. ${removed}${formatSkippedDuplicates(skipped)}${formatRejected(result.rejected)}`);
+    } catch (e) {
+        console.error(e);
+        return status("Ошибка генерации вопросов. Пожалуйста попробуйте снова.");
+    }
+}
+
+// Edits a status message in place. Edits are chained, so progress reported by parallel
+// chunks can't overtake each other, and unchanged texts are skipped since Telegram rejects them.
+function statusUpdater(message: any, initialText: string) {
+    let lastText = initialText;
+    let queue = Promise.resolve();
+    return (text: string) => {
+        queue = queue.then(async () => {
+            if (text === lastText) return;
+            lastText = text;
+            try {
+                await bot.api.editMessageText({ chat_id: message.chat.id, message_id: message.id, text });
+            } catch (e) {
+                console.error("Failed to update status message:", e);
+            }
+        });
+        return queue;
+    };
+}
+
+function formatGenerationProgress({ done, total, questions }: ai.GenerationProgress): string {
+    return `Часть ${done}/${total}, пока ${questions} ${pluralizeRu(questions, "вопрос", "вопроса", "вопросов")}`;
+}
+
+// [12, 13, 14, 20] -> "#12–#14, #20"
+function formatIdRanges(ids: number[]): string {
+    const ranges: string[] = [];
+    let start = ids[0]!;
+    let prev = start;
+    for (const id of [...ids.slice(1), NaN]) {
+        if (id === prev + 1) {
+            prev = id;
+            continue;
+        }
+        ranges.push(start === prev ? `#${start}` : `#${start}–#${prev}`);
+        start = prev = id;
+    }
+    return ranges.join(", ");
+}
+
+// Deck imports wait for confirmation after the dry run summary
+const MAX_DECK_FILE_BYTES = 5 * 1024 * 1024;
+const PENDING_IMPORT_TTL_MS = 30 * 60 * 1000;
+
+interface PendingImport {
+    studyKey: string;
+    fileName: string;
+    questions: deck.DeckQuestion[];
+    skippedDuplicates: number;
+    skippedInvalid: number;
+    createdAt: number;
+}
+
+const pendingImports = new Map<number, PendingImport>();
+
+function getPendingImport(userId: number): PendingImport | null {
+    const pending = pendingImports.get(userId);
+    if (!pending || Date.now() - pending.createdAt > PENDING_IMPORT_TTL_MS) {
+        pendingImports.delete(userId);
+        return null;
+    }
+    return pending;
+}
+
+// Drops questions that already exist in the topic or repeat earlier in the list
+function splitDuplicates(studyKey: string, questions: deck.DeckQuestion[]) {
+    const seen = new Set(db.getTopicQuestions(studyKey).map(q => deck.questionKey(q.question_text)));
+    const fresh: deck.DeckQuestion[] = [];
+    for (const q of questions) {
+        const key = deck.questionKey(q.question);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        fresh.push(q);
+    }
+    return { fresh, duplicates: questions.length - fresh.length };
+}
+
+async function handleDeckUpload(context: any, userId: number, studyKey: string, format: deck.DeckFormat) {
+    const document = context.document;
+    if (document.fileSize && document.fileSize > MAX_DECK_FILE_BYTES) {
+        return context.send("Файл слишком большой (максимум 5 МБ).");
+    }
+
+    let parsed: deck.ParsedDeck;
+    try {
+        const content = new TextDecoder("utf-8").decode(await context.download());
+        parsed = deck.parseDeck(content, format);
+    } catch (e) {
+        console.error("Failed to read deck file:", e);
+        return context.send("Не удалось прочитать файл. Попробуйте еще раз.");
+    }
+
+    const { fresh, duplicates } = splitDuplicates(studyKey, parsed.questions);
+    const fileName = document.fileName || `import.${format}`;
+    const total = parsed.questions.length + parsed.errors.length;
+
+    let text = `📥 <b>Проверка файла '${escapeHtml(fileName)}'</b> для темы '${escapeHtml(studyKey)}' (пока ничего не сохранено):\n\n`;
+    text += `• Вопросов в файле: ${total}\n`;
+    text += `• Будет добавлено: ${fresh.length}\n`;
+    text += `• Дубликатов пропущено: ${duplicates}\n`;
+    text += `• С ошибками: ${parsed.errors.length}\n`;
+    if (parsed.errors.length > 0) {
+        text += "\n" + parsed.errors.slice(0, 10).map(error => `⚠️ ${escapeHtml(error)}`).join("\n");
+        if (parsed.errors.length > 10) text += `\n… и еще ${parsed.errors.length - 10}`;
+    }
+
+    if (fresh.length === 0) {
+        pendingImports.delete(userId);
+        return context.send(text + "\n\nНечего импортировать.", { parse_mode: "HTML" });
+    }
+
+    pendingImports.set(userId, {
+        studyKey,
+        fileName,
+        questions: fresh,
+        skippedDuplicates: duplicates,
+        skippedInvalid: parsed.errors.length,
+        createdAt: Date.now()
+    });
+
+    const keyboard = new InlineKeyboard()
+        .text(`✅ Импортировать (${fresh.length})`, "imp:ok")
+        .text("✖️ Отмена", "imp:cancel");
+    return context.send(text, { reply_markup: keyboard, parse_mode: "HTML" });
+}
+
 async function sendQuestionsList(context: any, studyKey: string, page: number, isEdit = false) {
     const { questions, total, totalPages } = db.getQuestions(studyKey, page, 5);
     
@@ -655,19 +3002,18 @@ async function sendQuestionsList(context: any, studyKey: string, page: number, i
     const keyboard = new InlineKeyboard();
 
     questions.forEach((q) => {
-        const options = JSON.parse(q.options) as string[];
-        const correct = options[q.correct_index];
-        text += `🔹 <b>${q.id}</b>: ${escapeHtml(q.question_text)}\n✅ <b>Ответ</b>: ${escapeHtml(correct)} (👍${q.thumbs_up}/👎${q.thumbs_down})\n\n`;
+        const correct = questionTypes.correctAnswerText(q);
+        const type = q.type === "single" ? "" : ` <i>(${questionTypes.typeTitles[q.type]})</i>`;
+        text += `🔹 <b>${q.id}</b>${type}: ${escapeHtml(q.question_text)}\n✅ <b>Ответ</b>: ${escapeHtml(correct)} (👍${q.thumbs_up}/👎${q.thumbs_down})\n\n`;
     });
 
-    // Add delete buttons grid
-    let rowCount = 0;
+    // Edit, delete and source buttons, one question per row
     questions.forEach((q) => {
+        keyboard.text(`✏️ ${q.id}`, `edit:${q.id}`);
         keyboard.text(`🗑 ${q.id}`, `del:${q.id}:${studyKey}:${page}`);
-        rowCount++;
-        if (rowCount % 4 === 0) keyboard.row(); // 4 buttons per row
+        if (q.source_id !== null) keyboard.text(`📄 ${q.id}`, `src:${q.id}`);
+        keyboard.row();
     });
-    if (rowCount % 4 !== 0) keyboard.row();
 
     // Navigation
     if (page > 1) keyboard.text("⬅️ Назад", `page:${studyKey}:${page - 1}`);
@@ -687,3 +3033,124 @@ async function sendQuestionsList(context: any, studyKey: string, page: number, i
         await context.send(text, { reply_markup: keyboard, parse_mode: "HTML" });
     }
 }
+
+async function sendAuditLog(context: any, studyKey: string | null, page: number, isEdit = false) {
+    const { entries, totalPages } = db.getAuditLog(studyKey, page, 10);
+    const scope = studyKey === null ? "все темы" : `тема '${escapeHtml(studyKey)}'`;
+
+    let text = `🧾 <b>Журнал действий</b> (${scope}, стр. ${page}/${totalPages}):\n\n`;
+    if (entries.length === 0) text += "Записей нет.";
+
+    for (const entry of entries) {
+        const actor = entry.actorUsername ? `@${escapeHtml(entry.actorUsername)}` : `<code>${entry.actorId}</code>`;
+        const topic = studyKey === null && entry.studyKey ? ` [${escapeHtml(entry.studyKey)}]` : "";
+        const target = entry.target ? ` → ${escapeHtml(entry.target)}` : "";
+        let payload = entry.payload ? JSON.stringify(entry.payload) : "";
+        if (payload.length > 200) payload = payload.slice(0, 200) + "…";
+
+        text += `#${entry.id} ${entry.createdAt.toLocaleString("ru-RU")}\n${actor}: <b>${entry.action}</b>${topic}${target}\n`;
+        if (payload) text += `<code>${escapeHtml(payload)}</code>\n`;
+        text += "\n";
+    }
+
+    // The log of a purged topic has no topic id to page with, admins still see its first page
+    const topicRef = studyKey === null ? "" : db.getTopic(studyKey)?.id;
+    const keyboard = new InlineKeyboard();
+    if (topicRef !== undefined) {
+        if (page > 1) keyboard.text("⬅️ Назад", `audit:${page - 1}:${topicRef}`);
+        if (page < totalPages) keyboard.text("Вперед ➡️", `audit:${page + 1}:${topicRef}`);
+    }
+
+    if (isEdit && context.message) {
+        try {
+            await bot.api.editMessageText({
+                chat_id: context.message.chat.id,
+                message_id: context.message.id,
+                text,
+                reply_markup: keyboard,
+                parse_mode: "HTML"
+            });
+        } catch (e) { console.error(e); }
+    } else {
+        try {
+            await context.send(text, { reply_markup: keyboard, parse_mode: "HTML" });
+        } catch (e) {
+            console.error("Failed to send audit log:", e);
+        }
+    }
+}
+
+async function sendQuestionsTrash(context: any, studyKey: string, page: number, isEdit = false) {
+    const { questions, total, totalPages } = db.getTrashedQuestions(studyKey, page, 5);
+
+    if (questions.length === 0 && page > 1) {
+        return sendQuestionsTrash(context, studyKey, page - 1, isEdit);
+    }
+
+    let text = `🗑️ <b>Корзина темы '${escapeHtml(studyKey)}'</b> (${total}, стр. ${page}/${totalPages}):\n`;
+    text += `Удаленные вопросы хранятся ${trashRetentionDays} дн., затем удаляются навсегда.\n\n`;
+    if (questions.length === 0) text += "Корзина пуста.";
+
+    const keyboard = new InlineKeyboard();
+    questions.forEach((q) => {
+        const correct = questionTypes.correctAnswerText(q);
+        const type = q.type === "single" ? "" : ` <i>(${questionTypes.typeTitles[q.type]})</i>`;
+        const deletedAt = new Date(q.deleted_at * 1000).toLocaleString("ru-RU");
+        text += `🔹 <b>${q.id}</b>${type}: ${escapeHtml(q.question_text)}\n✅ <b>Ответ</b>: ${escapeHtml(correct)}\n🕓 ${deletedAt}\n\n`;
+        keyboard
+            .text(`♻️ ${q.id}`, `trash:restore:${q.id}:${page}`)
+            .text(`🔥 ${q.id}`, `trash:purge:${q.id}:${page}`)
+            .row();
+    });
+
+    if (page > 1) keyboard.text("⬅️ Назад", `trash:page:0:${page - 1}`);
+    if (page < totalPages) keyboard.text("Вперед ➡️", `trash:page:0:${page + 1}`);
+
+    if (isEdit && context.message) {
+        try {
+            await bot.api.editMessageText({
+                chat_id: context.message.chat.id,
+                message_id: context.message.id,
+                text,
+                reply_markup: keyboard,
+                parse_mode: "HTML"
+            });
+        } catch (e) { console.error(e); }
+    } else {
+        await context.send(text, { reply_markup: keyboard, parse_mode: "HTML" });
+    }
+}
+
+async function sendTopicsTrash(context: any, userId: number, isEdit = false) {
+    const topics = db.getDeletedTopics().filter(topic => auth.can(userId, "manage_topic", topic.key));
+
+    let text = "🗑️ <b>Удаленные темы</b>\n\n";
+    if (topics.length === 0) text += "Корзина пуста.";
+
+    const keyboard = new InlineKeyboard();
+    for (const topic of topics) {
+        text += `📚 <b>${escapeHtml(topic.key)}</b> (${db.getQuestionCount(topic.key)} вопросов), удалена ${topic.deletedAt?.toLocaleString("ru-RU")}\n`;
+        keyboard
+            .text(`♻️ ${topic.key}`, `ttrash:restore:${topic.id}`)
+            .text("🔥", `ttrash:purge:${topic.id}`)
+            .row();
+    }
+
+    if (isEdit && context.message) {
+        try {
+            await bot.api.editMessageText({
+                chat_id: context.message.chat.id,
+                message_id: context.message.id,
+                text,
+                reply_markup: keyboard,
+                parse_mode: "HTML"
+            });
+        } catch (e) { console.error(e); }
+    } else {
+        try {
+            await context.send(text, { reply_markup: keyboard, parse_mode: "HTML" });
+        } catch (e) {
+            console.error("Failed to send topics trash:", e);
+        }
+    }
+}
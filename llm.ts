@@ -0,0 +1,241 @@
+import OpenAI from "openai";
+
+// Chat completion backend used by ai.ts. Any OpenAI compatible server works
+// (Groq, OpenAI, Ollama, llama.cpp server, vLLM...), "mock" answers deterministically without network.
+//
+// LLM_PROVIDER           groq (default), openai, ollama, llamacpp, custom or mock
+// LLM_BASE_URL           overrides the provider's default URL, required for custom
+// LLM_API_KEY            falls back to GROQ_API_KEY / OPENAI_API_KEY for those providers
+// LLM_GENERATION_MODEL   model that writes the questions
+// LLM_VALIDATION_MODEL   model that checks them, defaults to the generation model
+// LLM_VISION_MODEL       model that transcribes photos, must accept images
+// LLM_GRADING_MODEL      model that grades free-form answers, defaults to the validation model
+// LLM_EXPLANATION_MODEL  model that explains answers of older questions, defaults to the generation model
+// LLM_TIMEOUT_MS         per request, default 120000
+// LLM_MAX_RETRIES        retries after the first attempt, default 3
+// LLM_RETRY_DELAY_MS     first backoff delay, doubled on every retry, default 1000
+// LLM_RESPONSE_FORMAT    json_schema (structured output), json_object (JSON mode) or none,
+//                        the default depends on what the provider supports
+// LLM_REPAIR_ATTEMPTS    how many times a malformed JSON answer is sent back for fixing, default 1
+
+export type LlmProvider = "groq" | "openai" | "ollama" | "llamacpp" | "custom" | "mock";
+
+// What the request is for: picks the model and the mock answer
+export type LlmTask = "generate" | "validate" | "transcribe" | "grade" | "explain";
+
+export type ResponseFormat = "json_schema" | "json_object" | "none";
+
+// Images can only be sent in user messages
+export type ContentPart =
+    | { type: "text", text: string }
+    | { type: "image_url", image_url: { url: string } };
+
+export type ChatMessage =
+    | { role: "system" | "assistant", content: string }
+    | { role: "user", content: string | ContentPart[] };
+
+const providerDefaults: Record<LlmProvider, { baseURL: string, apiKey?: string, model: string, visionModel?: string, responseFormat: ResponseFormat }> = {
+    // Groq has JSON mode for every model, but structured output only for some
+    groq: { baseURL: "https://api.groq.com/openai/v1", apiKey: process.env.GROQ_API_KEY, model: "moonshotai/kimi-k2-instruct-0905", visionModel: "meta-llama/llama-4-scout-17b-16e-instruct", responseFormat: "json_object" },
+    openai: { baseURL: "https://api.openai.com/v1", apiKey: process.env.OPENAI_API_KEY, model: "gpt-4o-mini", responseFormat: "json_schema" },
+    ollama: { baseURL: "http://localhost:11434/v1", apiKey: "ollama", model: "qwen2.5:14b", visionModel: "qwen2.5vl:7b", responseFormat: "json_schema" },
+    // llama.cpp serves whatever model it was started with and ignores the name
+    llamacpp: { baseURL: "http://localhost:8080/v1", apiKey: "none", model: "default", responseFormat: "json_schema" },
+    custom: { baseURL: "", model: "", responseFormat: "none" },
+    mock: { baseURL: "", apiKey: "mock", model: "mock", responseFormat: "none" }
+};
+
+function readProvider(): LlmProvider {
+    const value = (process.env.LLM_PROVIDER || "groq").toLowerCase();
+    if (value in providerDefaults) return value as LlmProvider;
+    console.error(`Warning: unknown LLM_PROVIDER '${value}', using groq.`);
+    return "groq";
+}
+
+const provider = readProvider();
+const defaults = providerDefaults[provider];
+const generationModel = process.env.LLM_GENERATION_MODEL || defaults.model;
+const validationModel = process.env.LLM_VALIDATION_MODEL || generationModel;
+
+export const llmConfig = {
+    provider,
+    baseURL: process.env.LLM_BASE_URL || defaults.baseURL,
+    apiKey: process.env.LLM_API_KEY || defaults.apiKey,
+    models: {
+        generate: generationModel,
+        validate: validationModel,
+        // Without a dedicated vision model the generation model has to read images itself
+        transcribe: process.env.LLM_VISION_MODEL || defaults.visionModel || generationModel,
+        grade: process.env.LLM_GRADING_MODEL || validationModel,
+        explain: process.env.LLM_EXPLANATION_MODEL || generationModel
+    } as Record<LlmTask, string>,
+    timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || "120000"),
+    maxRetries: parseInt(process.env.LLM_MAX_RETRIES || "3"),
+    retryDelayMs: parseInt(process.env.LLM_RETRY_DELAY_MS || "1000"),
+    responseFormat: (process.env.LLM_RESPONSE_FORMAT || defaults.responseFormat) as ResponseFormat,
+    repairAttempts: parseInt(process.env.LLM_REPAIR_ATTEMPTS || "1")
+};
+
+// Why requests can't be made with the current configuration, null if they can
+export function configurationProblem(): string | null {
+    if (provider === "mock") return null;
+    if (!llmConfig.baseURL) return "LLM_BASE_URL is not set.";
+    if (!llmConfig.apiKey) return provider === "groq" ? "GROQ_API_KEY is not set." : "LLM_API_KEY is not set.";
+    if (!llmConfig.models.generate) return "LLM_GENERATION_MODEL is not set.";
+    return null;
+}
+
+const client = provider === "mock" ? null : new OpenAI({
+    apiKey: llmConfig.apiKey || "dummy", // Prevent crash if not set, configurationProblem() reports it
+    baseURL: llmConfig.baseURL || undefined,
+    timeout: llmConfig.timeoutMs,
+    maxRetries: 0 // retried below with our own backoff
+});
+
+export interface JsonSchema {
+    name: string;
+    schema: Record<string, unknown>;
+    strict?: boolean;   // default true
+}
+
+interface CompletionOptions {
+    temperature?: number;
+    // Requests structured output or JSON mode, depending on llmConfig.responseFormat
+    schema?: JsonSchema;
+}
+
+// Returns the text of the first choice, or null when the model returned nothing
+export async function complete(task: LlmTask, messages: ChatMessage[], { temperature = 0.7, schema }: CompletionOptions = {}): Promise<string | null> {
+    if (!client) return mockCompletion(task, messages);
+
+    const responseFormat = !schema || llmConfig.responseFormat === "none"
+        ? undefined
+        : llmConfig.responseFormat === "json_schema"
+            ? { type: "json_schema" as const, json_schema: { name: schema.name, schema: schema.schema, strict: schema.strict ?? true } }
+            : { type: "json_object" as const };
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            const completion = await client.chat.completions.create({
+                model: llmConfig.models[task],
+                messages,
+                temperature,
+                ...(responseFormat && { response_format: responseFormat })
+            });
+            return completion.choices[0]?.message?.content?.trim() || null;
+        } catch (error) {
+            if (attempt >= llmConfig.maxRetries || !isRetryable(error)) throw error;
+
+            const delay = llmConfig.retryDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+            console.error(`LLM request failed (attempt ${attempt + 1}), retrying in ${Math.round(delay)} ms:`, (error as Error).message);
+            await Bun.sleep(delay);
+        }
+    }
+}
+
+// Asks for JSON and checks it with `parse`, which returns the value or a description of the problem.
+// A malformed answer is sent back to the model together with the problem to get it fixed.
+// Returns null when the answer is still unusable after the repair attempts.
+export async function completeJson<T>(
+    task: LlmTask,
+    messages: ChatMessage[],
+    parse: (value: unknown) => T | string,
+    options: CompletionOptions = {}
+): Promise<T | null> {
+    const conversation = [...messages];
+
+    for (let attempt = 0; attempt <= llmConfig.repairAttempts; attempt++) {
+        const content = await complete(task, conversation, options);
+        if (!content) return null;
+
+        let problem: string;
+        try {
+            // Clean up markdown code blocks if present (despite instruction)
+            const value = JSON.parse(content.replace(/```json/g, "").replace(/```/g, "").trim());
+            const result = parse(value);
+            if (typeof result !== "string") return result;
+            problem = result;
+        } catch (e) {
+            problem = `not valid JSON (${(e as Error).message})`;
+        }
+
+        console.error(`Malformed ${task} output (attempt ${attempt + 1}): ${problem}`);
+        conversation.push(
+            { role: "assistant", content },
+            { role: "user", content: `Your answer is invalid: ${problem}. Reply again with ONLY the corrected JSON in the requested format, no explanations.` }
+        );
+    }
+    return null;
+}
+
+// Network problems, timeouts, rate limits and server errors are worth another try, bad requests are not
+function isRetryable(error: unknown): boolean {
+    if (error instanceof OpenAI.APIConnectionError) return true; // includes timeouts
+    if (error instanceof OpenAI.APIError) {
+        return error.status === 408 || error.status === 409 || error.status === 429 || (error.status ?? 0) >= 500;
+    }
+    return false;
+}
+
+// Deterministic answers for offline testing: every sentence of the source text becomes a question
+// whose correct option is the sentence itself, validation keeps every question, photos
+// are "transcribed" to a fixed text, free-form answers are graded by shared words and
+// explanations just repeat the correct answer.
+function mockCompletion(task: LlmTask, messages: ChatMessage[]): string {
+    const content = messages[messages.length - 1]?.content ?? "";
+    const prompt = typeof content === "string"
+        ? content
+        : content.map(part => part.type === "text" ? part.text : "").join("\n");
+
+    if (task === "transcribe") {
+        const images = typeof content === "string" ? 0 : content.filter(part => part.type === "image_url").length;
+        return `Распознанный текст с фотографии (${images} изобр.).\n\nТеорема Пифагора: $a^2 + b^2 = c^2$ для прямоугольного треугольника.`;
+    }
+
+    if (task === "grade") {
+        // Same words as the expected answer is right, some shared longer words is partially right
+        const words = (label: string) => (prompt.match(new RegExp(`${label}:\\n"""\\n([\\s\\S]*?)\\n"""`))?.[1] ?? "")
+            .toLowerCase()
+            .split(/[^\p{L}\p{N}]+/u)
+            .filter(Boolean);
+        const expected = words("Expected answer");
+        const given = words("Student answer");
+        const verdict = expected.join(" ") === given.join(" ")
+            ? "correct"
+            : given.some(word => word.length >= 4 && expected.includes(word)) ? "partial" : "wrong";
+        return JSON.stringify({ verdict, explanation: `Проверка без модели: ${verdict}.` });
+    }
+
+    if (task === "explain") {
+        const answer = prompt.match(/Correct answer:\n"""\n([\s\S]*?)\n"""/)?.[1] ?? "";
+        return `Правильный ответ — «${answer}», остальные варианты не соответствуют определению.`;
+    }
+
+    if (task === "validate") {
+        const reviewed = prompt.match(/Questions to Review:\s*(\[[\s\S]*?\])\s*\n\s*\n/);
+        let count = 0;
+        try {
+            count = reviewed ? (JSON.parse(reviewed[1]!) as unknown[]).length : 0;
+        } catch (e) {
+            // Not our prompt format, nothing to keep
+        }
+        return JSON.stringify({ keep: Array.from({ length: count }, (_, i) => i) });
+    }
+
+    const source = prompt.match(/"""\n([\s\S]*?)\n"""/)?.[1] ?? "";
+    const sentences = source
+        .split(/(?<=[.!?])\s+|\n+/)
+        .map(sentence => sentence.trim())
+        .filter(sentence => sentence.split(/\s+/).length >= 3)
+        .slice(0, 10);
+
+    return JSON.stringify({
+        questions: sentences.map(sentence => ({
+            question: `Что верно про «${sentence.split(/\s+/).slice(0, 3).join(" ")}…»?`,
+            type: "single",
+            options: [sentence, `Неверно: ${sentence}`, "Ни одно из перечисленных"],
+            correct_index: 0,
+            explanation: `В тексте сказано: «${sentence}»`
+        }))
+    });
+}
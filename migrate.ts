@@ -0,0 +1,52 @@
+import { Database } from "bun:sqlite";
+import { existsSync } from "fs";
+import { DB_PATH, getMigrationStatus, runMigrations } from "./migrations";
+
+// Schema migrations CLI, the bot also applies pending migrations on startup.
+//   bun run migrate.ts status    show applied and pending migrations
+//   bun run migrate.ts dry-run   apply pending migrations in a rolled back transaction
+//   bun run migrate.ts up        apply pending migrations
+
+const command = process.argv[2] || "status";
+
+if (!["status", "dry-run", "up"].includes(command)) {
+    console.error(`Unknown command '${command}'. Usage: bun run migrate.ts [status|dry-run|up]`);
+    process.exit(1);
+}
+
+if (command !== "up" && !existsSync(DB_PATH)) {
+    console.error(`Database ${DB_PATH} does not exist yet, all migrations will run when it is created.`);
+    process.exit(1);
+}
+
+// Only "up" may create a missing database file, "status" never writes
+const db = command === "status"
+    ? new Database(DB_PATH, { readonly: true })
+    : new Database(DB_PATH, { readwrite: true, create: command === "up" });
+const status = getMigrationStatus(db);
+
+console.log(`Database: ${DB_PATH}`);
+console.log(`Current schema version: ${status.current}`);
+for (const migration of status.applied) {
+    console.log(`  ✅ ${migration.version} ${migration.name} (${new Date(migration.applied_at * 1000).toISOString()})`);
+}
+for (const migration of status.pending) {
+    console.log(`  ⏳ ${migration.version} ${migration.name}`);
+}
+
+if (status.pending.length === 0) {
+    console.log("Schema is up to date.");
+} else if (command === "dry-run") {
+    try {
+        runMigrations(db, { dryRun: true });
+        console.log(`Dry run OK: ${status.pending.length} pending migrations apply cleanly (rolled back).`);
+    } catch (error) {
+        console.error("Dry run failed:", error);
+        process.exit(1);
+    }
+} else if (command === "up") {
+    const applied = runMigrations(db);
+    console.log(`Applied ${applied.length} migrations.`);
+} else {
+    console.log(`${status.pending.length} pending migrations. Run 'bun run migrate.ts up' or start the bot to apply them.`);
+}
@@ -0,0 +1,449 @@
+import type { Database } from "bun:sqlite";
+import { DEFAULT_EASE, startOfDay, startOfWeek } from "./scheduler";
+
+export const DB_PATH = process.env.DB_PATH || "db.sqlite";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database) => void;
+}
+
+// Ordered list of schema changes. Never edit a migration that has been released,
+// add a new one instead. Databases created before the migration runner existed
+// already have some of these tables and columns, so early migrations are written
+// to be safe to re-apply (IF NOT EXISTS, addColumn).
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY,
+          current_study_key TEXT,
+          is_trusted BOOLEAN DEFAULT 0
+        );
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS usernames (
+          username TEXT PRIMARY KEY,
+          user_id INTEGER
+        );
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS questions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          study_key TEXT,
+          question_text TEXT,
+          options TEXT, -- JSON array of strings
+          correct_index INTEGER,
+          created_at INTEGER DEFAULT (strftime('%s', 'now')),
+          thumbs_up INTEGER DEFAULT 0,
+          thumbs_down INTEGER DEFAULT 0
+        );
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS votes (
+          user_id INTEGER,
+          question_id INTEGER,
+          vote INTEGER, -- 1 for up, -1 for down
+          PRIMARY KEY (user_id, question_id)
+        );
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS user_progress (
+          user_id INTEGER,
+          question_id INTEGER,
+          last_used_at INTEGER,
+          PRIMARY KEY (user_id, question_id)
+        );
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS leaderboard_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          study_key TEXT NOT NULL,
+          leaderboard_data TEXT NOT NULL, -- JSON object with usernames as keys, counts as values
+          created_at INTEGER DEFAULT (strftime('%s', 'now'))
+        );
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: "spaced_repetition",
+    up: (db) => {
+      // See scheduler.ts
+      addColumn(db, "user_progress", "ease", `REAL DEFAULT ${DEFAULT_EASE}`);
+      addColumn(db, "user_progress", "interval_days", "INTEGER DEFAULT 0");
+      addColumn(db, "user_progress", "repetitions", "INTEGER DEFAULT 0");
+      addColumn(db, "user_progress", "lapses", "INTEGER DEFAULT 0");
+      addColumn(db, "user_progress", "due_at", "INTEGER");
+      addColumn(db, "user_progress", "introduced_at", "INTEGER");
+      addColumn(db, "user_progress", "last_reviewed_at", "INTEGER");
+
+      // Rows written by the old LRU picker have no schedule yet, make them due right away
+      db.run("UPDATE user_progress SET due_at = last_used_at, introduced_at = last_used_at WHERE due_at IS NULL");
+    }
+  },
+  {
+    version: 3,
+    name: "attempts",
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS attempts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          question_id INTEGER NOT NULL,
+          selected_index INTEGER,
+          is_correct BOOLEAN NOT NULL,
+          is_first_try BOOLEAN NOT NULL,
+          response_ms INTEGER, -- time between sending the question and the answer
+          created_at INTEGER NOT NULL -- ms, same as user_progress
+        );
+      `);
+      db.run("CREATE INDEX IF NOT EXISTS idx_attempts_user_question ON attempts (user_id, question_id, created_at)");
+      db.run("CREATE INDEX IF NOT EXISTS idx_attempts_created_at ON attempts (created_at)");
+    }
+  },
+  {
+    version: 4,
+    name: "incremental_leaderboards",
+    up: (db) => {
+      db.run("CREATE INDEX IF NOT EXISTS idx_leaderboard_history_key ON leaderboard_history (study_key, id)");
+
+      // Correct first-try answers per user, kept up to date by recordAttempt.
+      // period_start is the start of the day/week in ms, 0 for the all-time board.
+      db.run(`
+        CREATE TABLE IF NOT EXISTS leaderboard_scores (
+          study_key TEXT NOT NULL,
+          period TEXT NOT NULL, -- day, week or all
+          period_start INTEGER NOT NULL,
+          user_id INTEGER NOT NULL,
+          score INTEGER NOT NULL DEFAULT 0,
+          last_scored_at INTEGER NOT NULL,
+          PRIMARY KEY (study_key, period, period_start, user_id)
+        );
+      `);
+      db.run("CREATE INDEX IF NOT EXISTS idx_leaderboard_scores_rank ON leaderboard_scores (study_key, period, period_start, score DESC)");
+
+      // Fill the aggregate from the attempts log once, after that it is only updated incrementally
+      if (db.query("SELECT 1 FROM leaderboard_scores LIMIT 1").get()) return;
+      const now = Date.now();
+      for (const [period, periodStart] of [["day", startOfDay(now)], ["week", startOfWeek(now)], ["all", 0]] as const) {
+        db.query(`
+          INSERT INTO leaderboard_scores (study_key, period, period_start, user_id, score, last_scored_at)
+          SELECT q.study_key, $period, $periodStart, a.user_id, COUNT(*), MAX(a.created_at)
+          FROM attempts a
+          JOIN questions q ON q.id = a.question_id
+          WHERE a.is_first_try = 1 AND a.is_correct = 1 AND a.created_at >= $periodStart
+          GROUP BY q.study_key, a.user_id
+        `).run({ $period: period, $periodStart: periodStart });
+      }
+    }
+  },
+  {
+    version: 5,
+    name: "topics",
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS topics (
+          key TEXT PRIMARY KEY,
+          description TEXT,
+          owner_id INTEGER,
+          visibility TEXT NOT NULL DEFAULT 'public', -- public, unlisted or private
+          archived BOOLEAN NOT NULL DEFAULT 0,
+          created_at INTEGER DEFAULT (strftime('%s', 'now'))
+        );
+      `);
+
+      // Topics used to exist only as questions.study_key, they stay public and without an owner
+      db.run(`
+        INSERT OR IGNORE INTO topics (key, created_at)
+        SELECT study_key, MIN(created_at) FROM questions
+        WHERE study_key IS NOT NULL
+        GROUP BY study_key
+      `);
+    }
+  },
+  {
+    version: 6,
+    name: "topic_roles",
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS topic_roles (
+          study_key TEXT NOT NULL,
+          user_id INTEGER NOT NULL,
+          role TEXT NOT NULL, -- owner, editor or viewer
+          granted_by INTEGER,
+          created_at INTEGER DEFAULT (strftime('%s', 'now')),
+          PRIMARY KEY (study_key, user_id)
+        );
+      `);
+      db.run("CREATE INDEX IF NOT EXISTS idx_topic_roles_user ON topic_roles (user_id)");
+
+      db.run(`
+        INSERT OR IGNORE INTO topic_roles (study_key, user_id, role)
+        SELECT key, owner_id, 'owner' FROM topics WHERE owner_id IS NOT NULL
+      `);
+
+      // Trusted users used to be able to edit every topic, keep that for the topics that existed before roles
+      db.run(`
+        INSERT OR IGNORE INTO topic_roles (study_key, user_id, role)
+        SELECT t.key, u.id, 'editor' FROM topics t, users u
+        WHERE t.owner_id IS NULL AND u.is_trusted = 1
+      `);
+    }
+  },
+  {
+    version: 7,
+    name: "audit_log",
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          actor_id INTEGER NOT NULL,
+          action TEXT NOT NULL,
+          study_key TEXT,
+          target TEXT,
+          payload TEXT, -- JSON with whatever is needed to understand or undo the action
+          created_at INTEGER DEFAULT (strftime('%s', 'now'))
+        );
+      `);
+      db.run("CREATE INDEX IF NOT EXISTS idx_audit_log_key ON audit_log (study_key, id)");
+
+      // Append-only: entries can never be changed or removed, not even by the bot itself
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+        BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+      `);
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+        BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+      `);
+    }
+  },
+  {
+    version: 8,
+    name: "soft_delete",
+    up: (db) => {
+      // Deleted rows stay in place (with votes, progress and images) until purged from the trash
+      addColumn(db, "questions", "deleted_at", "INTEGER");
+      addColumn(db, "questions", "deleted_by", "INTEGER");
+      addColumn(db, "topics", "deleted_at", "INTEGER");
+      addColumn(db, "topics", "deleted_by", "INTEGER");
+      db.run("CREATE INDEX IF NOT EXISTS idx_questions_study_key ON questions (study_key, deleted_at)");
+    }
+  },
+  {
+    version: 9,
+    name: "question_embeddings",
+    up: (db) => {
+      // Cache for duplicate detection, see duplicates.ts. Rows are dropped when the question changes.
+      db.run(`
+        CREATE TABLE IF NOT EXISTS question_embeddings (
+          question_id INTEGER PRIMARY KEY,
+          model TEXT NOT NULL,
+          vector TEXT NOT NULL -- JSON array of numbers
+        );
+      `);
+    }
+  },
+  {
+    version: 10,
+    name: "question_types",
+    up: (db) => {
+      // See questionTypes.ts. Existing questions are all single choice.
+      addColumn(db, "questions", "type", "TEXT NOT NULL DEFAULT 'single'");
+      addColumn(db, "questions", "answer", "TEXT"); // JSON, null for single and true_false
+    }
+  },
+  {
+    version: 11,
+    name: "answer_mode",
+    up: (db) => {
+      // "choice" shows the options, "open" asks for a free-form answer graded by the LLM
+      addColumn(db, "users", "answer_mode", "TEXT NOT NULL DEFAULT 'choice'");
+    }
+  },
+  {
+    version: 12,
+    name: "question_explanations",
+    up: (db) => {
+      // Why the answer is right and the distractors are wrong. Older questions are filled in
+      // by BACKFILL_EXPLANATIONS or the first time somebody asks "Почему?".
+      addColumn(db, "questions", "explanation", "TEXT");
+    }
+  },
+  {
+    version: 13,
+    name: "sources",
+    up: (db) => {
+      // The text questions were generated from, one row per chunk sent to the model.
+      // Questions from older versions and imported decks have no source.
+      db.run(`
+        CREATE TABLE IF NOT EXISTS sources (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          study_key TEXT NOT NULL,
+          submitted_by INTEGER,
+          kind TEXT NOT NULL, -- text, photo or file
+          file_name TEXT,
+          from_page INTEGER,
+          to_page INTEGER,
+          text TEXT NOT NULL,
+          created_at INTEGER DEFAULT (strftime('%s', 'now'))
+        );
+      `);
+      addColumn(db, "questions", "source_id", "INTEGER REFERENCES sources(id)");
+      db.run("CREATE INDEX IF NOT EXISTS idx_questions_source ON questions (source_id)");
+    }
+  },
+  {
+    version: 14,
+    name: "exams",
+    up: (db) => {
+      // /exam sessions live here so that a restart doesn't lose them, times are ms
+      db.run(`
+        CREATE TABLE IF NOT EXISTS exams (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          chat_id INTEGER NOT NULL,
+          study_key TEXT NOT NULL,
+          question_count INTEGER NOT NULL,
+          position INTEGER NOT NULL DEFAULT 0, -- the question being answered
+          started_at INTEGER NOT NULL,
+          ends_at INTEGER NOT NULL,
+          finished_at INTEGER -- null while the exam runs
+        );
+      `);
+      db.run("CREATE INDEX IF NOT EXISTS idx_exams_user ON exams (user_id, finished_at)");
+      db.run(`
+        CREATE TABLE IF NOT EXISTS exam_questions (
+          exam_id INTEGER NOT NULL,
+          position INTEGER NOT NULL,
+          question_id INTEGER NOT NULL,
+          message_id INTEGER,
+          served_at INTEGER,
+          answer TEXT, -- the answer as shown in the report, null if skipped or not reached
+          is_correct BOOLEAN,
+          answered_at INTEGER,
+          PRIMARY KEY (exam_id, position)
+        );
+      `);
+    }
+  },
+  {
+    version: 15,
+    name: "group_quizzes",
+    up: (db) => {
+      // Group chats study one topic picked by a chat admin, questions are asked in rounds
+      // where every member answers once before the answer is revealed. Times are ms.
+      db.run(`
+        CREATE TABLE IF NOT EXISTS chats (
+          chat_id INTEGER PRIMARY KEY,
+          study_key TEXT,
+          updated_by INTEGER,
+          updated_at INTEGER DEFAULT (strftime('%s', 'now'))
+        );
+      `);
+      db.run(`
+        CREATE TABLE IF NOT EXISTS chat_rounds (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          chat_id INTEGER NOT NULL,
+          question_id INTEGER NOT NULL,
+          message_id INTEGER,
+          started_at INTEGER NOT NULL,
+          ends_at INTEGER NOT NULL,
+          closed_at INTEGER -- null while members can answer
+        );
+      `);
+      db.run("CREATE INDEX IF NOT EXISTS idx_chat_rounds_chat ON chat_rounds (chat_id, closed_at)");
+      db.run(`
+        CREATE TABLE IF NOT EXISTS chat_answers (
+          round_id INTEGER NOT NULL,
+          user_id INTEGER NOT NULL,
+          user_name TEXT NOT NULL, -- as shown when the answer is revealed
+          selected_index INTEGER NOT NULL,
+          is_correct BOOLEAN NOT NULL,
+          answered_at INTEGER NOT NULL,
+          PRIMARY KEY (round_id, user_id)
+        );
+      `);
+    }
+  },
+  {
+    version: 16,
+    name: "topic_ids",
+    up: (db) => {
+      // Short stable id for button payloads, topic keys can be longer than Telegram's 64 byte callback data
+      addColumn(db, "topics", "id", "INTEGER");
+      db.run("UPDATE topics SET id = rowid WHERE id IS NULL");
+      db.run("CREATE UNIQUE INDEX IF NOT EXISTS idx_topics_id ON topics (id)");
+    }
+  }
+];
+
+function addColumn(db: Database, table: string, column: string, definition: string) {
+  const columns = db.query(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+function ensureVersionTable(db: Database) {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER DEFAULT (strftime('%s', 'now'))
+    );
+  `);
+}
+
+// Read-only, so it is safe to call against a production database before deploying
+export function getMigrationStatus(db: Database) {
+  const hasVersionTable = db.query("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'").get();
+  const applied = hasVersionTable
+    ? db.query("SELECT version, name, applied_at FROM schema_version ORDER BY version ASC").all() as { version: number, name: string, applied_at: number }[]
+    : [];
+  const current = applied.length > 0 ? applied[applied.length - 1]!.version : 0;
+
+  return {
+    current,
+    applied,
+    pending: migrations.filter(m => !applied.some(a => a.version === m.version))
+  };
+}
+
+// Applies pending migrations in order, each one in its own transaction.
+// With dryRun every pending migration is applied inside one transaction that is then rolled back,
+// which checks that they would succeed against this database without changing it.
+export function runMigrations(db: Database, { dryRun = false }: { dryRun?: boolean } = {}): Migration[] {
+  const { pending } = getMigrationStatus(db);
+  if (pending.length === 0) return [];
+
+  if (dryRun) {
+    db.run("BEGIN");
+    try {
+      for (const migration of pending) migration.up(db);
+    } finally {
+      db.run("ROLLBACK");
+    }
+    return pending;
+  }
+
+  ensureVersionTable(db);
+  const record = db.query("INSERT INTO schema_version (version, name) VALUES ($version, $name)");
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      record.run({ $version: migration.version, $name: migration.name });
+    })();
+  }
+  return pending;
+}
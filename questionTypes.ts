@@ -0,0 +1,224 @@
+// Question types beyond the classic single choice. Choice types keep using options and correct_index,
+// the rest store what counts as a right answer in `answer` (the JSON answer column in the database).
+//
+// single      one correct option, answered with a button
+// true_false  a statement, options are always "Верно" / "Неверно"
+// multi       several correct options, the user toggles them and submits
+// cloze       text with ____ blanks, the missing words are typed back as a message
+// numeric     a number typed back as a message, accepted within the tolerance
+
+export type QuestionType = "single" | "true_false" | "multi" | "cloze" | "numeric";
+
+export const QUESTION_TYPES: QuestionType[] = ["single", "true_false", "multi", "cloze", "numeric"];
+
+export interface MultiAnswer {
+    correct: number[];
+}
+
+export interface ClozeAnswer {
+    // Accepted answers for every blank, in the order the blanks appear in the text
+    blanks: string[][];
+}
+
+export interface NumericAnswer {
+    value: number;
+    tolerance: number;
+    unit?: string;
+}
+
+export type QuestionAnswer = MultiAnswer | ClozeAnswer | NumericAnswer | null;
+
+export interface TypedQuestion {
+    question: string;
+    type: QuestionType;
+    options: string[];          // empty for cloze and numeric
+    correct_index: number;      // first correct option for multi, 0 for typed answers
+    answer: QuestionAnswer;     // null for single and true_false
+}
+
+export const TRUE_FALSE_OPTIONS = ["Верно", "Неверно"];
+
+export const CLOZE_BLANK = /_{3,}/g;
+
+export const MAX_OPTIONS = 8;
+
+export const typeTitles: Record<QuestionType, string> = {
+    single: "один ответ",
+    true_false: "верно/неверно",
+    multi: "несколько ответов",
+    cloze: "пропуски",
+    numeric: "число"
+};
+
+export function isQuestionType(value: unknown): value is QuestionType {
+    return typeof value === "string" && (QUESTION_TYPES as string[]).includes(value);
+}
+
+// Answered by typing a message instead of pressing a button
+export function isTypedAnswer(type: QuestionType): boolean {
+    return type === "cloze" || type === "numeric";
+}
+
+// Checks a question of any type, in the shape the LLM and deck files use:
+// { type, question, options, correct_index, correct_indices, blanks, value, tolerance, unit }.
+// Returns the cleaned up question or a description of what is wrong with it.
+export function validateTypedQuestion(item: any): TypedQuestion | string {
+    const type = item?.type ?? "single";
+    if (!isQuestionType(type)) return `неизвестный тип вопроса '${String(type)}'`;
+    if (typeof item?.question !== "string" || !item.question.trim()) return "пустой текст вопроса";
+    const question = item.question.trim();
+
+    if (type === "single") {
+        const checked = validateChoiceQuestion(question, Array.isArray(item.options) ? item.options : null, item.correct_index);
+        return typeof checked === "string" ? checked : { ...checked, type, answer: null };
+    }
+
+    if (type === "true_false") {
+        if (item.correct_index !== 0 && item.correct_index !== 1) return "correct_index должен быть 0 (верно) или 1 (неверно)";
+        return { question, type, options: [...TRUE_FALSE_OPTIONS], correct_index: item.correct_index, answer: null };
+    }
+
+    if (type === "multi") {
+        // Any valid option index passes the single choice check, the real ones are checked below
+        const checked = validateChoiceQuestion(question, Array.isArray(item.options) ? item.options : null, 0);
+        if (typeof checked === "string") return checked;
+        const correct = item.correct_indices;
+        if (!Array.isArray(correct) || correct.length === 0) return "correct_indices должен быть непустым списком";
+        if (correct.some((i: unknown) => !Number.isInteger(i) || (i as number) < 0 || (i as number) >= checked.options.length)) {
+            return `correct_indices должны быть числами от 0 до ${checked.options.length - 1}`;
+        }
+        const unique = [...new Set(correct as number[])].sort((a, b) => a - b);
+        return { question, type, options: checked.options, correct_index: unique[0]!, answer: { correct: unique } };
+    }
+
+    if (type === "cloze") {
+        const blanksInText = question.match(CLOZE_BLANK)?.length ?? 0;
+        if (blanksInText === 0) return "в тексте нет пропусков (____)";
+        const blanks = item.blanks;
+        if (!Array.isArray(blanks) || blanks.length !== blanksInText) {
+            return `нужно ${blanksInText} ${blanksInText === 1 ? "список ответов" : "списков ответов"} в blanks, по одному на пропуск`;
+        }
+        const cleaned: string[][] = [];
+        for (const accepted of blanks) {
+            // A single string is accepted as the only answer for the blank
+            const list = (Array.isArray(accepted) ? accepted : [accepted])
+                .filter((answer: unknown) => typeof answer === "string" && answer.trim())
+                .map((answer: string) => answer.trim());
+            if (list.length === 0) return "у каждого пропуска должен быть хотя бы один ответ";
+            cleaned.push(list);
+        }
+        return { question, type, options: [], correct_index: 0, answer: { blanks: cleaned } };
+    }
+
+    const value = typeof item.value === "string" ? parseNumber(item.value) : item.value;
+    if (typeof value !== "number" || !Number.isFinite(value)) return "value должен быть числом";
+    const tolerance = item.tolerance === undefined || item.tolerance === null ? 0 : item.tolerance;
+    if (typeof tolerance !== "number" || !Number.isFinite(tolerance) || tolerance < 0) return "tolerance должен быть неотрицательным числом";
+    const unit = typeof item.unit === "string" && item.unit.trim() ? item.unit.trim() : undefined;
+    return { question, type, options: [], correct_index: 0, answer: { value, tolerance, ...(unit && { unit }) } };
+}
+
+// The checks shared by the choice types
+function validateChoiceQuestion(question: unknown, options: unknown[] | null, correctIndex: unknown): { question: string, options: string[], correct_index: number } | string {
+    if (typeof question !== "string" || !question.trim()) return "пустой текст вопроса";
+    if (!options || options.some(option => typeof option !== "string")) return "варианты ответа должны быть строками";
+
+    const cleanOptions = (options as string[]).map(option => option.trim());
+    if (cleanOptions.length < 2) return "нужно хотя бы 2 варианта ответа";
+    if (cleanOptions.length > MAX_OPTIONS) return `не больше ${MAX_OPTIONS} вариантов ответа`;
+    if (cleanOptions.some(option => !option)) return "пустой вариант ответа";
+    if (new Set(cleanOptions).size !== cleanOptions.length) return "повторяющиеся варианты ответа";
+
+    if (typeof correctIndex !== "number" || !Number.isInteger(correctIndex) || correctIndex < 0 || correctIndex >= cleanOptions.length) {
+        return `correct_index должен быть числом от 0 до ${cleanOptions.length - 1}`;
+    }
+
+    return { question: question.trim(), options: cleanOptions, correct_index: correctIndex };
+}
+
+// Back to the flat shape validateTypedQuestion reads, used for deck files
+export function toPlainAnswer(type: QuestionType, correctIndex: number, answer: QuestionAnswer): Record<string, unknown> {
+    if (type === "multi") return { correct_indices: (answer as MultiAnswer).correct };
+    if (type === "cloze") return { blanks: (answer as ClozeAnswer).blanks };
+    if (type === "numeric") {
+        const { value, tolerance, unit } = answer as NumericAnswer;
+        return { value, tolerance, ...(unit && { unit }) };
+    }
+    return { correct_index: correctIndex };
+}
+
+// Whether a typed reply answers a cloze or numeric question
+export function checkTypedAnswer(type: QuestionType, answer: QuestionAnswer, input: string): boolean {
+    if (type === "numeric") {
+        const { value, tolerance } = answer as NumericAnswer;
+        const given = parseNumber(input);
+        if (given === null) return false;
+        // Rounding noise is always forgiven, even with zero tolerance
+        return Math.abs(given - value) <= tolerance + Math.abs(value) * 1e-9;
+    }
+
+    if (type === "cloze") {
+        const { blanks } = answer as ClozeAnswer;
+        // Several blanks are answered in order, separated by ";" or new lines
+        const parts = blanks.length === 1 ? [input] : input.split(/[;\n]/);
+        if (parts.length !== blanks.length) return false;
+        return blanks.every((accepted, idx) => accepted.some(option => normalizeAnswer(option) === normalizeAnswer(parts[idx]!)));
+    }
+
+    return false;
+}
+
+// Whether the set of toggled options answers a multi-select question exactly
+export function checkMultiAnswer(answer: QuestionAnswer, selected: number[]): boolean {
+    const correct = (answer as MultiAnswer).correct;
+    return selected.length === correct.length && correct.every(i => selected.includes(i));
+}
+
+// Human readable right answer, shown after the question is solved or given up
+export function formatCorrectAnswer(question: { type: QuestionType, options: string[], correct_index: number, answer: QuestionAnswer }): string {
+    const letter = (idx: number) => String.fromCharCode(65 + idx);
+    switch (question.type) {
+        case "true_false":
+            return question.options[question.correct_index] ?? "";
+        case "multi":
+            return (question.answer as MultiAnswer).correct.map(letter).join(", ");
+        case "cloze":
+            return (question.answer as ClozeAnswer).blanks.map(accepted => accepted[0]).join("; ");
+        case "numeric": {
+            const { value, tolerance, unit } = question.answer as NumericAnswer;
+            return `${value}${tolerance > 0 ? ` ± ${tolerance}` : ""}${unit ? ` ${unit}` : ""}`;
+        }
+        default:
+            return letter(question.correct_index);
+    }
+}
+
+// Answer text used where only one string fits, e.g. duplicate detection and Anki cards
+export function correctAnswerText(question: { type: QuestionType, options: string[], correct_index: number, answer: QuestionAnswer }): string {
+    if (question.type === "single") return question.options[question.correct_index] ?? "";
+    if (question.type === "multi") return (question.answer as MultiAnswer).correct.map(i => question.options[i]).join("; ");
+    return formatCorrectAnswer(question);
+}
+
+// Accepts "3,14", "1 000", "-2.5e3" and simple fractions like "1/3"
+export function parseNumber(input: string): number | null {
+    const text = input.trim().replace(/\s+/g, "").replace(/,/g, ".").replace(/−/g, "-");
+    const fraction = text.match(/^(-?\d+(?:\.\d+)?)\/(\d+(?:\.\d+)?)/);
+    if (fraction) {
+        const denominator = parseFloat(fraction[2]!);
+        return denominator === 0 ? null : parseFloat(fraction[1]!) / denominator;
+    }
+    // Units typed after the number are ignored
+    const number = text.match(/^-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i);
+    return number ? parseFloat(number[0]) : null;
+}
+
+// Case, ё, spacing and surrounding punctuation don't make a typed answer wrong
+function normalizeAnswer(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/ё/g, "е")
+        .replace(/\s+/g, " ")
+        .trim()
+        .replace(/^[\s.,!?;:«»"'()]+|[\s.,!?;:«»"'()]+$/g, "");
+}
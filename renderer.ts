@@ -1,6 +1,59 @@
 import puppeteer from "puppeteer";
+import { CLOZE_BLANK, type QuestionType } from "./questionTypes";
 
-export async function renderQuestionToImage(question: string, options: string[]): Promise<Buffer> {
+// How to answer, shown under the question for everything but plain single choice
+const typeHints: Record<QuestionType, string | null> = {
+    single: null,
+    true_false: "Верно или неверно?",
+    multi: "Выберите все верные варианты и нажмите «Ответить»",
+    cloze: "Впишите пропущенное ответным сообщением",
+    numeric: "Ответ — число, отправьте его сообщением"
+};
+
+// openAnswer renders a choice question without its options, for the open answer mode
+export async function renderQuestionToImage(question: string, options: string[], type: QuestionType = "single", openAnswer = false): Promise<Buffer> {
+    // True/false is answered with the buttons, there is nothing to list
+    const shownOptions = type === "true_false" || openAnswer ? [] : options;
+    const optionsHtml = shownOptions.map((opt, i) => {
+        const label = String.fromCharCode(65 + i); // A, B, C...
+        return `<div class="option">
+            <span class="label">${label})</span>
+            <span class="content">${escapeHtml(opt)}</span>
+        </div>`;
+    }).join("");
+
+    const blanks = type === "cloze" ? question.match(CLOZE_BLANK)?.length ?? 0 : 0;
+    const hint = openAnswer
+        ? "Ответьте своими словами ответным сообщением"
+        : type === "cloze" && blanks > 1
+            ? "Впишите пропущенное ответным сообщением, по порядку через «;»"
+            : typeHints[type];
+
+    return renderHtmlToImage(`
+        <div class="question">${questionHtml(question, type)}</div>
+        <div class="options">
+            ${optionsHtml}
+        </div>
+        ${hint ? `<div class="hint">${hint}</div>` : ""}
+    `);
+}
+
+// The "Почему?" card: the question, its right answer and why it is right
+export async function renderExplanationToImage(question: string, type: QuestionType, answerText: string, explanation: string): Promise<Buffer> {
+    const paragraphs = explanation
+        .split(/\n\s*\n/)
+        .map(paragraph => `<p>${escapeHtml(paragraph.trim())}</p>`)
+        .join("");
+
+    return renderHtmlToImage(`
+        <div class="question small">${questionHtml(question, type)}</div>
+        <div class="answer"><span class="label">Ответ:</span> ${escapeHtml(answerText)}</div>
+        <div class="explanation">${paragraphs}</div>
+    `);
+}
+
+// Renders the body with MathJax on the dark card background
+async function renderHtmlToImage(body: string): Promise<Buffer> {
     const browser = await puppeteer.launch({
         args: ["--no-sandbox", "--disable-setuid-sandbox"],
         headless: true
@@ -10,14 +63,6 @@ export async function renderQuestionToImage(question: string, options: string[])
     // Set viewport to reasonable width, height will adjust
     await page.setViewport({ width: 800, height: 600, deviceScaleFactor: 2 });
 
-    const optionsHtml = options.map((opt, i) => {
-        const label = String.fromCharCode(65 + i); // A, B, C...
-        return `<div class="option">
-            <span class="label">${label})</span>
-            <span class="content">${escapeHtml(opt)}</span>
-        </div>`;
-    }).join("");
-
     const html = `
     <!DOCTYPE html>
     <html>
@@ -68,6 +113,40 @@ export async function renderQuestionToImage(question: string, options: string[])
             .content {
                 word-break: break-word;
             }
+            .blank {
+                display: inline-block;
+                min-width: 90px;
+                border-bottom: 3px solid #bdbdbd;
+                text-align: center;
+                color: #bdbdbd;
+                font-size: 18px;
+            }
+            .hint {
+                font-size: 20px;
+                font-style: italic;
+                color: #bdbdbd;
+                margin-top: 25px;
+            }
+            .question.small {
+                font-size: 22px;
+                color: #bdbdbd;
+                margin-bottom: 20px;
+            }
+            .answer {
+                font-size: 24px;
+                line-height: 1.4;
+                background: #2e4a33;
+                padding: 15px;
+                border-radius: 8px;
+                margin-bottom: 20px;
+            }
+            .explanation {
+                font-size: 22px;
+                line-height: 1.6;
+            }
+            .explanation p {
+                margin: 0 0 12px 0;
+            }
             /* Vertical align fix for inline math */
             mjx-container[jax="SVG"][display="true"] {
                 margin: 1em 0 !important;
@@ -104,10 +183,7 @@ export async function renderQuestionToImage(question: string, options: string[])
     </head>
     <body>
         <div id="container">
-            <div class="question">${escapeHtml(question)}</div>
-            <div class="options">
-                ${optionsHtml}
-            </div>
+            ${body}
         </div>
     </body>
     </html>
@@ -140,6 +216,19 @@ export async function renderQuestionToImage(question: string, options: string[])
     return Buffer.from(imageBuffer);
 }
 
+// Cloze blanks become underlined gaps, numbered when there are several
+function questionHtml(question: string, type: QuestionType): string {
+    const escaped = escapeHtml(question);
+    if (type !== "cloze") return escaped;
+
+    const count = question.match(CLOZE_BLANK)?.length ?? 0;
+    let number = 0;
+    return escaped.replace(CLOZE_BLANK, () => {
+        number++;
+        return `<span class="blank">${count > 1 ? number : "&nbsp;"}</span>`;
+    });
+}
+
 function escapeHtml(unsafe: string): string {
     // We only escape basic HTML chars, but we MUST preserve LaTeX delimiters if they use & etc?
     // Actually, text content usually doesn't have & unless part of math.
@@ -0,0 +1,93 @@
+// SM-2 spaced repetition scheduling.
+// Every (user, question) pair is a "card" with its own ease, interval and due date.
+
+export const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// Failed cards come back shortly in the same session instead of tomorrow
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CardState {
+    ease: number;
+    intervalDays: number;
+    repetitions: number;
+    lapses: number;
+}
+
+export interface ScheduledCard extends CardState {
+    dueAt: number;
+}
+
+// Cards scheduled this far out are considered learned
+export const MASTERED_INTERVAL_DAYS = 21;
+// Cards whose ease dropped below this keep getting forgotten
+export const STRUGGLING_EASE = 2.0;
+
+// Quality on the SM-2 scale: 0-2 is a failed recall, 3-5 is a successful one
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+// Answers faster/slower than this count as easy/hard recalls
+const FAST_ANSWER_MS = 10 * 1000;
+const SLOW_ANSWER_MS = 60 * 1000;
+
+export function qualityFromAnswer(isCorrect: boolean, responseMs: number | null): ReviewQuality {
+    if (!isCorrect) return 1;
+    if (responseMs === null) return 4;
+    if (responseMs <= FAST_ANSWER_MS) return 5;
+    if (responseMs >= SLOW_ANSWER_MS) return 3;
+    return 4;
+}
+
+// A partially correct free-form answer is a failed recall, but a close one
+export const PARTIAL_RECALL_QUALITY: ReviewQuality = 2;
+
+export function newCard(): CardState {
+    return { ease: DEFAULT_EASE, intervalDays: 0, repetitions: 0, lapses: 0 };
+}
+
+export function reviewCard(card: CardState, quality: ReviewQuality, now: number = Date.now()): ScheduledCard {
+    const ease = Math.max(MIN_EASE, card.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+    if (quality < 3) {
+        return {
+            ease,
+            intervalDays: 0,
+            repetitions: 0,
+            lapses: card.lapses + 1,
+            dueAt: now + RELEARN_DELAY_MS
+        };
+    }
+
+    const repetitions = card.repetitions + 1;
+    let intervalDays: number;
+    if (repetitions === 1) {
+        intervalDays = 1;
+    } else if (repetitions === 2) {
+        intervalDays = 6;
+    } else {
+        intervalDays = Math.round(card.intervalDays * ease);
+    }
+
+    return {
+        ease,
+        intervalDays,
+        repetitions,
+        lapses: card.lapses,
+        dueAt: now + intervalDays * DAY_MS
+    };
+}
+
+// Start of the current day in local time, used for the daily new card limit
+export function startOfDay(now: number = Date.now()): number {
+    const date = new Date(now);
+    date.setHours(0, 0, 0, 0);
+    return date.getTime();
+}
+
+// Weeks start on Monday
+export function startOfWeek(now: number = Date.now()): number {
+    const date = new Date(startOfDay(now));
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+    return date.getTime();
+}